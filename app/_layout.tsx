@@ -4,6 +4,7 @@ import React from 'react'
 import { Text, View, ActivityIndicator } from 'react-native'
 import { Colors } from '../constants'
 import { AuthProvider, useAuth } from '../contexts/AuthContext'
+import { SyncProvider } from '../contexts/SyncContext'
 import AuthScreen from '../components/AuthScreen'
 
 function AuthenticatedTabs() {
@@ -67,6 +68,59 @@ function AuthenticatedTabs() {
           headerTitle: 'My Wardrobe',
         }}
       />
+      <Tabs.Screen
+        name="outfits"
+        options={{
+          title: 'Outfits',
+          tabBarIcon: ({ color, size }) => (
+            <Text style={{ fontSize: size * 0.8, color }}>🧩</Text>
+          ),
+          headerTitle: 'My Outfits',
+        }}
+      />
+      {/* Opened from Overview, so it has no tab of its own */}
+      <Tabs.Screen
+        name="cost-per-wear"
+        options={{
+          href: null,
+          headerTitle: 'Cost Per Wear',
+        }}
+      />
+      <Tabs.Screen
+        name="calendar"
+        options={{
+          href: null,
+          headerTitle: 'Wear Calendar',
+        }}
+      />
+      <Tabs.Screen
+        name="declutter"
+        options={{
+          href: null,
+          headerTitle: 'Forgotten Items',
+        }}
+      />
+      <Tabs.Screen
+        name="laundry"
+        options={{
+          href: null,
+          headerTitle: 'Laundry',
+        }}
+      />
+      <Tabs.Screen
+        name="trips"
+        options={{
+          href: null,
+          headerTitle: 'Trips',
+        }}
+      />
+      <Tabs.Screen
+        name="suggestions"
+        options={{
+          href: null,
+          headerTitle: 'What to Wear',
+        }}
+      />
     </Tabs>
   )
 }
@@ -87,7 +141,11 @@ function RootLayoutContent() {
     return <AuthScreen />
   }
 
-  return <AuthenticatedTabs />
+  return (
+    <SyncProvider>
+      <AuthenticatedTabs />
+    </SyncProvider>
+  )
 }
 
 export default function TabLayout() {
@@ -0,0 +1,536 @@
+import React, { useState, useMemo, useRef } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
+import { useAuth } from '../contexts/AuthContext'
+import { ClothingItem, DatedWear, recordWears, removeWear, useItems, useWearCalendar } from '../lib/wardrobe'
+import { confirmAction } from '../utils/confirm'
+import { formatRelativeDate, getTodayString } from '../utils/dates'
+import { searchItems } from '../utils/search'
+import {
+  buildHeatmapWeeks,
+  countWearsByDate,
+  formatMonthLabel,
+  getHeatLevel,
+  getHeatmapStartDate,
+} from '../utils/calendar'
+import SearchBox from '../components/SearchBox'
+
+const categoryIcons = {
+  'tops': '👕',
+  'bottoms': '👖',
+  'dresses_jumpsuits': '👗',
+  'shoes': '👟',
+  'accessories': '👒',
+  'outerwear': '🧥',
+  'underwear': '🩲',
+  'sleepwear': '🩱',
+  'activewear': '🏃‍♀️',
+}
+
+const weekdayLabels = ['Mon', '', 'Wed', '', 'Fri', '', '']
+
+const CELL_SIZE = 13
+const CELL_GAP = 3
+const PICKER_LIMIT = 30 // keep the add list short; search narrows it down
+
+// Index 0 is a day with nothing logged; the rest get darker with more wears
+const heatLevelStyles = [
+  { backgroundColor: Colors.borderLight },
+  { backgroundColor: Colors.primary, opacity: 0.3 },
+  { backgroundColor: Colors.primary, opacity: 0.5 },
+  { backgroundColor: Colors.primary, opacity: 0.75 },
+  { backgroundColor: Colors.primary, opacity: 1 },
+]
+
+export default function WearCalendar() {
+  const { user } = useAuth()
+  const today = getTodayString()
+  const startDate = useMemo(() => getHeatmapStartDate(today), [today])
+  const { data: wears = [], isLoading, refetch } = useWearCalendar(startDate)
+  const { data: items = [] } = useItems()
+  const [refreshing, setRefreshing] = useState(false)
+  const [selectedDate, setSelectedDate] = useState(today)
+  const [isAdding, setIsAdding] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const heatmapScroll = useRef<ScrollView>(null)
+
+  const weeks = useMemo(() => buildHeatmapWeeks(today), [today])
+  const counts = useMemo(() => countWearsByDate(wears), [wears])
+  const maxCount = Math.max(0, ...Object.values(counts))
+  const itemsById = useMemo(() => new Map(items.map(item => [item.id, item])), [items])
+
+  const dayWears = wears.filter(wear => wear.date_worn === selectedDate)
+  const daysLogged = Object.keys(counts).length
+  const pickerItems = searchItems(items, searchQuery).slice(0, PICKER_LIMIT)
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await refetch()
+    setRefreshing(false)
+  }
+
+  const selectDate = (date: string) => {
+    setSelectedDate(date)
+    setIsAdding(false)
+    setSearchQuery('')
+  }
+
+  const handleAddWear = async (item: ClothingItem) => {
+    if (!user || busyId) return
+
+    setBusyId(item.id)
+    try {
+      // Queued locally when offline; the calendar and the item's stats update everywhere
+      const result = await recordWears(user.id, [{ clothing_item_id: item.id, date_worn: selectedDate }])
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to add wear. Please try again.')
+      }
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRemoveWear = async (wear: DatedWear) => {
+    const itemName = (wear.clothing_item_id && itemsById.get(wear.clothing_item_id)?.name) || 'this item'
+    const confirmed = await confirmAction(
+      'Remove Wear',
+      `Remove the wear of ${itemName} from ${formatRelativeDate(selectedDate).toLowerCase()}?`,
+      'Remove'
+    )
+    if (!confirmed) return
+
+    setBusyId(wear.id)
+    try {
+      // The stats trigger decrements times_worn and recomputes last_worn_date
+      const result = await removeWear(wear.id)
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to remove wear. Please try again.')
+      }
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const renderThumbnail = (item: ClothingItem | undefined) => {
+    const primaryImage = item?.image_urls && item.image_urls.length > 0 ? item.image_urls[0] : null
+    const categoryIcon = (item && categoryIcons[item.category as keyof typeof categoryIcons]) || '👕'
+
+    return (
+      <View style={styles.thumbnail}>
+        {primaryImage ? (
+          <Image source={{ uri: primaryImage }} style={styles.thumbnailImage} resizeMode="cover" />
+        ) : (
+          <Text style={styles.thumbnailIcon}>{categoryIcon}</Text>
+        )}
+      </View>
+    )
+  }
+
+  const renderHeatmap = () => (
+    <View style={styles.heatmapCard}>
+      <View style={styles.heatmapRow}>
+        <View style={styles.weekdayColumn}>
+          <View style={styles.monthLabelRow} />
+          {weekdayLabels.map((label, index) => (
+            <Text key={index} style={styles.weekdayLabel}>{label}</Text>
+          ))}
+        </View>
+        <ScrollView
+          ref={heatmapScroll}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          onContentSizeChange={() => heatmapScroll.current?.scrollToEnd({ animated: false })}
+        >
+          {weeks.map((week, weekIndex) => {
+            const firstDay = week[0] as string
+            const isNewMonth = weekIndex === 0 || firstDay.slice(5, 7) !== (weeks[weekIndex - 1][0] as string).slice(5, 7)
+
+            return (
+              <View key={firstDay} style={styles.weekColumn}>
+                <View style={styles.monthLabelRow}>
+                  {isNewMonth && <Text style={styles.monthLabel}>{formatMonthLabel(firstDay)}</Text>}
+                </View>
+                {week.map((date, dayIndex) => {
+                  if (!date) {
+                    return <View key={dayIndex} style={styles.cellEmpty} />
+                  }
+
+                  const level = getHeatLevel(counts[date] || 0, maxCount)
+                  return (
+                    <TouchableOpacity
+                      key={date}
+                      style={[
+                        styles.cell,
+                        heatLevelStyles[level],
+                        date === selectedDate && styles.cellSelected,
+                      ]}
+                      onPress={() => selectDate(date)}
+                    />
+                  )
+                })}
+              </View>
+            )
+          })}
+        </ScrollView>
+      </View>
+      <View style={styles.legendRow}>
+        <Text style={styles.legendText}>{wears.length} wears on {daysLogged} days in the last year</Text>
+        <View style={styles.legendScale}>
+          <Text style={styles.legendText}>Less</Text>
+          {heatLevelStyles.map((levelStyle, level) => (
+            <View key={level} style={[styles.cell, styles.legendCell, levelStyle]} />
+          ))}
+          <Text style={styles.legendText}>More</Text>
+        </View>
+      </View>
+    </View>
+  )
+
+  const renderDay = () => (
+    <View style={styles.section}>
+      <View style={styles.dayHeader}>
+        <View>
+          <Text style={styles.sectionTitle}>{formatRelativeDate(selectedDate)}</Text>
+          <Text style={styles.daySubtitle}>
+            {dayWears.length === 0
+              ? 'Nothing logged'
+              : `${dayWears.length} ${dayWears.length === 1 ? 'item' : 'items'} worn`}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.addButton, isAdding && styles.addButtonActive]}
+          onPress={() => setIsAdding(prev => !prev)}
+        >
+          <Text style={[styles.addButtonText, isAdding && styles.addButtonTextActive]}>
+            {isAdding ? 'Done' : '＋ Add wear'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {dayWears.map(wear => {
+        const item = wear.clothing_item_id ? itemsById.get(wear.clothing_item_id) : undefined
+        const isBusy = busyId === wear.id
+
+        return (
+          <View key={wear.id} style={styles.wearRow}>
+            {renderThumbnail(item)}
+            <View style={styles.wearInfo}>
+              <Text style={styles.wearName} numberOfLines={1}>{item?.name || 'Deleted item'}</Text>
+              {wear.pending ? (
+                <Text style={styles.wearMeta}>Waiting to sync</Text>
+              ) : item?.brand ? (
+                <Text style={styles.wearMeta} numberOfLines={1}>{item.brand}</Text>
+              ) : null}
+            </View>
+            {!wear.pending && (
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => handleRemoveWear(wear)}
+                disabled={isBusy}
+              >
+                {isBusy ? (
+                  <ActivityIndicator size="small" color={Colors.error} />
+                ) : (
+                  <Text style={styles.removeButtonText}>✕</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        )
+      })}
+
+      {isAdding && (
+        <View style={styles.picker}>
+          <SearchBox value={searchQuery} onChangeText={setSearchQuery} />
+          {pickerItems.map(item => {
+            const isBusy = busyId === item.id
+            const wornCount = dayWears.filter(wear => wear.clothing_item_id === item.id).length
+
+            return (
+              <TouchableOpacity
+                key={item.id}
+                style={styles.wearRow}
+                onPress={() => handleAddWear(item)}
+                disabled={!!busyId}
+              >
+                {renderThumbnail(item)}
+                <View style={styles.wearInfo}>
+                  <Text style={styles.wearName} numberOfLines={1}>{item.name}</Text>
+                  {wornCount > 0 && (
+                    <Text style={styles.wearMeta}>Already logged {wornCount === 1 ? 'once' : `${wornCount} times`} this day</Text>
+                  )}
+                </View>
+                {isBusy ? (
+                  <ActivityIndicator size="small" color={Colors.primary} />
+                ) : (
+                  <Text style={styles.pickerAdd}>＋</Text>
+                )}
+              </TouchableOpacity>
+            )
+          })}
+          {pickerItems.length === 0 && (
+            <Text style={styles.emptyText}>No items match your search</Text>
+          )}
+        </View>
+      )}
+    </View>
+  )
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    )
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          tintColor={Colors.primary}
+          colors={[Colors.primary]}
+        />
+      }
+    >
+      {renderHeatmap()}
+      {renderDay()}
+    </ScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  content: {
+    paddingVertical: Spacing.lg,
+  },
+
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  heatmapCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  heatmapRow: {
+    flexDirection: 'row',
+  },
+
+  weekdayColumn: {
+    marginRight: Spacing.xs,
+  },
+
+  weekdayLabel: {
+    height: CELL_SIZE,
+    marginBottom: CELL_GAP,
+    fontSize: 9,
+    lineHeight: CELL_SIZE,
+    color: Colors.textTertiary,
+  },
+
+  weekColumn: {
+    marginRight: CELL_GAP,
+  },
+
+  monthLabelRow: {
+    height: 14,
+  },
+
+  monthLabel: {
+    position: 'absolute',
+    width: 40,
+    fontSize: 9,
+    color: Colors.textTertiary,
+  },
+
+  cell: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    borderRadius: 3,
+    marginBottom: CELL_GAP,
+  },
+
+  cellEmpty: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    marginBottom: CELL_GAP,
+  },
+
+  cellSelected: {
+    borderWidth: 2,
+    borderColor: Colors.textPrimary,
+  },
+
+  legendRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+  },
+
+  legendScale: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  legendCell: {
+    marginBottom: 0,
+    marginHorizontal: 1,
+  },
+
+  legendText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textTertiary,
+    marginHorizontal: Spacing.xs,
+  },
+
+  section: {
+    paddingHorizontal: Spacing.lg,
+  },
+
+  sectionTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textAccent,
+  },
+
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+
+  daySubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+
+  addButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+
+  addButtonActive: {
+    backgroundColor: Colors.primary,
+  },
+
+  addButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.primary,
+  },
+
+  addButtonTextActive: {
+    color: Colors.textInverse,
+  },
+
+  wearRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    backgroundColor: Colors.backgroundSecondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.md,
+  },
+
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  thumbnailIcon: {
+    fontSize: 22,
+  },
+
+  wearInfo: {
+    flex: 1,
+  },
+
+  wearName: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  wearMeta: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+
+  removeButton: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  removeButtonText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.error,
+  },
+
+  picker: {
+    marginTop: Spacing.md,
+  },
+
+  pickerAdd: {
+    fontSize: Typography.fontSize.lg,
+    color: Colors.primary,
+    paddingHorizontal: Spacing.sm,
+  },
+
+  emptyText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.md,
+  },
+})
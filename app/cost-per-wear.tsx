@@ -0,0 +1,404 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
+import { formatSEK } from '../utils/currency'
+import { ItemWithStats, useItemsWithStats } from '../lib/wardrobe'
+import {
+  CostPerWearGrouping,
+  DEFAULT_TARGET_COST_PER_WEAR,
+  groupCostPerWear,
+  itemsAboveTarget,
+  loadTargetCostPerWear,
+  rankByCostPerWear,
+  saveTargetCostPerWear,
+  wearsToReachTarget,
+} from '../utils/costPerWear'
+
+const categoryDisplayNames = {
+  'tops': 'Tops',
+  'bottoms': 'Bottoms',
+  'dresses_jumpsuits': 'Dresses & Jumpsuits',
+  'shoes': 'Shoes',
+  'accessories': 'Accessories',
+  'outerwear': 'Outerwear',
+  'underwear': 'Underwear',
+  'sleepwear': 'Sleepwear',
+  'activewear': 'Activewear',
+}
+
+const groupings: { key: CostPerWearGrouping; label: string }[] = [
+  { key: 'category', label: 'Category' },
+  { key: 'brand', label: 'Brand' },
+  { key: 'second_hand', label: 'Second-hand vs new' },
+]
+
+const RANKING_SIZE = 5
+
+const groupLabel = (grouping: CostPerWearGrouping, key: string) => {
+  if (grouping === 'second_hand') return key === 'second_hand' ? 'Second-hand' : 'New'
+  if (grouping === 'category') return categoryDisplayNames[key as keyof typeof categoryDisplayNames] || key
+  return key || 'No brand'
+}
+
+export default function CostPerWear() {
+  const { data: items = [], isLoading, refetch } = useItemsWithStats()
+  const [refreshing, setRefreshing] = useState(false)
+  const [grouping, setGrouping] = useState<CostPerWearGrouping>('category')
+  const [target, setTarget] = useState(DEFAULT_TARGET_COST_PER_WEAR)
+  const [targetInput, setTargetInput] = useState(String(DEFAULT_TARGET_COST_PER_WEAR))
+
+  useEffect(() => {
+    loadTargetCostPerWear().then(saved => {
+      setTarget(saved)
+      setTargetInput(String(saved))
+    })
+  }, [])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await refetch()
+    setRefreshing(false)
+  }
+
+  const handleTargetChange = (text: string) => {
+    setTargetInput(text)
+    const value = Number(text.replace(',', '.'))
+    if (value > 0) {
+      setTarget(value)
+      saveTargetCostPerWear(value)
+    }
+  }
+
+  const ranked = rankByCostPerWear(items)
+  const best = ranked.slice(0, RANKING_SIZE)
+  const worst = ranked.slice(-RANKING_SIZE).reverse()
+  const groups = groupCostPerWear(items, grouping)
+  const aboveTarget = itemsAboveTarget(items, target)
+
+  const renderRankedItem = (item: ItemWithStats, index: number) => (
+    <View key={item.id} style={styles.row}>
+      <Text style={styles.rank}>{index + 1}</Text>
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.rowSubtitle}>
+          {formatSEK(item.total_cost_of_ownership || 0)} · worn {item.times_worn} {item.times_worn === 1 ? 'time' : 'times'}
+        </Text>
+      </View>
+      <Text style={styles.rowValue}>{formatSEK(item.cost_per_wear || 0, { showDecimals: true })}</Text>
+    </View>
+  )
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    )
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          tintColor={Colors.primary}
+          colors={[Colors.primary]}
+        />
+      }
+    >
+      <View style={styles.targetCard}>
+        <Text style={styles.targetLabel}>Target cost per wear</Text>
+        <View style={styles.targetInputRow}>
+          <TextInput
+            style={styles.targetInput}
+            value={targetInput}
+            onChangeText={handleTargetChange}
+            keyboardType="decimal-pad"
+            selectTextOnFocus
+          />
+          <Text style={styles.targetUnit}>kr</Text>
+        </View>
+      </View>
+
+      {ranked.length === 0 ? (
+        <View style={styles.emptyCard}>
+          <Text style={styles.emptyText}>
+            Add a purchase price to your items and log wears to see their cost per wear.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Best Cost Per Wear</Text>
+            <View style={styles.card}>{best.map(renderRankedItem)}</View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Worst Cost Per Wear</Text>
+            <View style={styles.card}>{worst.map(renderRankedItem)}</View>
+          </View>
+        </>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Breakdown</Text>
+        <View style={styles.chipRow}>
+          {groupings.map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.chip, grouping === option.key && styles.chipActive]}
+              onPress={() => setGrouping(option.key)}
+            >
+              <Text style={[styles.chipText, grouping === option.key && styles.chipTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.card}>
+          {groups.length === 0 ? (
+            <Text style={styles.emptyText}>No items with a purchase price yet.</Text>
+          ) : (
+            groups.map(group => (
+              <View key={group.key} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{groupLabel(grouping, group.key)}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {group.itemCount} {group.itemCount === 1 ? 'item' : 'items'} · {formatSEK(group.totalSpent)} · {group.totalWears} wears
+                  </Text>
+                </View>
+                <Text style={[
+                  styles.rowValue,
+                  group.costPerWear !== null && group.costPerWear > target && styles.rowValueWarning
+                ]}>
+                  {group.costPerWear !== null ? formatSEK(group.costPerWear, { showDecimals: true }) : 'Not worn'}
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Above Target</Text>
+        <Text style={styles.sectionSubtitle}>
+          Items costing more than {formatSEK(target)} per wear, most expensive first
+        </Text>
+        <View style={styles.card}>
+          {aboveTarget.length === 0 ? (
+            <Text style={styles.emptyText}>Every item with a price is at or below your target. 🎉</Text>
+          ) : (
+            aboveTarget.map(item => {
+              const wearsNeeded = wearsToReachTarget(item, target)
+              return (
+                <View key={item.id} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle} numberOfLines={1}>{item.name}</Text>
+                    <Text style={styles.rowSubtitle}>
+                      {formatSEK(item.total_cost_of_ownership || 0)} · {wearsNeeded} more {wearsNeeded === 1 ? 'wear' : 'wears'} to reach target
+                    </Text>
+                  </View>
+                  <Text style={[styles.rowValue, styles.rowValueWarning]}>
+                    {item.cost_per_wear !== null ? formatSEK(item.cost_per_wear, { showDecimals: true }) : 'Never worn'}
+                  </Text>
+                </View>
+              )
+            })
+          )}
+        </View>
+      </View>
+    </ScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  content: {
+    paddingVertical: Spacing.lg,
+  },
+
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  targetCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  targetLabel: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+
+  targetInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  targetInput: {
+    minWidth: 72,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    backgroundColor: Colors.background,
+    textAlign: 'right',
+  },
+
+  targetUnit: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    marginLeft: Spacing.xs,
+  },
+
+  section: {
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+
+  sectionTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textAccent,
+    marginBottom: Spacing.md,
+  },
+
+  sectionSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+
+  rank: {
+    width: 24,
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textTertiary,
+  },
+
+  rowInfo: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+
+  rowTitle: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  rowSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+
+  rowValue: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  rowValueWarning: {
+    color: Colors.warning,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: Spacing.md,
+  },
+
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+    marginRight: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  chipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  chipTextActive: {
+    color: Colors.textInverse,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+
+  emptyCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.xl,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  emptyText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.sm,
+  },
+})
@@ -0,0 +1,442 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
+import { formatSEK } from '../utils/currency'
+import { confirmAction } from '../utils/confirm'
+import { formatDisplayDate, getTodayString } from '../utils/dates'
+import { ClothingItem, ClothingItemChanges, saveItemChanges, useItems } from '../lib/wardrobe'
+import {
+  DECLUTTER_MONTH_OPTIONS,
+  DEFAULT_DECLUTTER_MONTHS,
+  ForgottenItem,
+  groupForgottenItems,
+  itemsToWearSoon,
+  loadDeclutterMonths,
+  saveDeclutterMonths,
+} from '../utils/declutter'
+
+const categoryDisplayNames = {
+  'tops': 'Tops',
+  'bottoms': 'Bottoms',
+  'dresses_jumpsuits': 'Dresses & Jumpsuits',
+  'shoes': 'Shoes',
+  'accessories': 'Accessories',
+  'outerwear': 'Outerwear',
+  'underwear': 'Underwear',
+  'sleepwear': 'Sleepwear',
+  'activewear': 'Activewear',
+}
+
+type Decision = NonNullable<ClothingItem['declutter_decision']>
+
+export default function Declutter() {
+  const { data: items = [], isLoading, refetch } = useItems()
+  const [refreshing, setRefreshing] = useState(false)
+  const [months, setMonths] = useState(DEFAULT_DECLUTTER_MONTHS)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadDeclutterMonths().then(setMonths)
+  }, [])
+
+  const today = getTodayString()
+  const groups = groupForgottenItems(items, months, today)
+  const wearSoon = itemsToWearSoon(items, today)
+  const forgottenCount = groups.reduce((sum, group) => sum + group.items.length, 0)
+  const tiedUpValue = groups.reduce((sum, group) => sum + group.tiedUpValue, 0)
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await refetch()
+    setRefreshing(false)
+  }
+
+  const handleMonthsChange = (value: number) => {
+    setMonths(value)
+    saveDeclutterMonths(value)
+  }
+
+  const saveChanges = async (item: ClothingItem, changes: ClothingItemChanges) => {
+    setSavingId(item.id)
+    try {
+      // Queued locally when offline, like any other item edit
+      const result = await saveItemChanges(item.id, changes)
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to save your decision. Please try again.')
+      }
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const decide = (item: ClothingItem, decision: Decision | null) =>
+    saveChanges(item, {
+      declutter_decision: decision,
+      declutter_decided_at: decision ? today : null,
+    })
+
+  const retire = async (item: ClothingItem) => {
+    const confirmed = await confirmAction(
+      'Retire Item',
+      `Retire ${item.name}? It leaves your wardrobe lists but keeps its history. You can mark it sold or donated later.`,
+      'Retire'
+    )
+    if (!confirmed) return
+
+    await saveChanges(item, {
+      status: 'retired',
+      status_date: today,
+      status_reason: `Not worn in ${months} months`,
+      declutter_decision: null,
+      declutter_decided_at: null,
+    })
+  }
+
+  const describeForgotten = ({ item, reason, since }: ForgottenItem<ClothingItem>) => {
+    if (reason === 'never_worn') {
+      return `Never worn · ${item.purchase_date ? 'bought' : 'added'} ${formatDisplayDate(since)}`
+    }
+    return item.last_worn_date
+      ? `Last worn ${formatDisplayDate(since)}`
+      : `Worn ${item.times_worn} ${item.times_worn === 1 ? 'time' : 'times'}, no dated wears since ${formatDisplayDate(since)}`
+  }
+
+  const renderForgottenItem = (forgotten: ForgottenItem<ClothingItem>) => {
+    const { item } = forgotten
+    const isSaving = savingId === item.id
+
+    return (
+      <View key={item.id} style={styles.itemRow}>
+        <View style={styles.itemHeader}>
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowTitle} numberOfLines={1}>{item.name}</Text>
+            <Text style={styles.rowSubtitle}>{describeForgotten(forgotten)}</Text>
+          </View>
+          {!!item.purchase_price && <Text style={styles.rowValue}>{formatSEK(item.purchase_price)}</Text>}
+        </View>
+        {isSaving ? (
+          <ActivityIndicator size="small" color={Colors.primary} style={styles.actionsLoading} />
+        ) : (
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => decide(item, 'wear_soon')}>
+              <Text style={styles.actionText}>Wear soon</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => decide(item, 'keep')}>
+              <Text style={styles.actionText}>Keep</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.retireButton]} onPress={() => retire(item)}>
+              <Text style={[styles.actionText, styles.retireText]}>Retire</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    )
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          tintColor={Colors.primary}
+          colors={[Colors.primary]}
+        />
+      }
+    >
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Not Worn In</Text>
+        <View style={styles.chipRow}>
+          {DECLUTTER_MONTH_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, months === option && styles.chipActive]}
+              onPress={() => handleMonthsChange(option)}
+            >
+              <Text style={[styles.chipText, months === option && styles.chipTextActive]}>
+                {option} months
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.summaryCard}>
+          <View style={styles.summaryStat}>
+            <Text style={styles.summaryValue}>{forgottenCount}</Text>
+            <Text style={styles.summaryLabel}>Forgotten items</Text>
+          </View>
+          <View style={styles.summaryStat}>
+            <Text style={styles.summaryValue}>{formatSEK(tiedUpValue)}</Text>
+            <Text style={styles.summaryLabel}>Tied up in them</Text>
+          </View>
+        </View>
+      </View>
+
+      {wearSoon.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Wear Soon</Text>
+          <Text style={styles.sectionSubtitle}>Items you promised to wear again</Text>
+          <View style={styles.card}>
+            {wearSoon.map(item => (
+              <View key={item.id} style={[styles.itemRow, styles.itemHeader]}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle} numberOfLines={1}>{item.name}</Text>
+                  <Text style={styles.rowSubtitle}>Decided {formatDisplayDate(item.declutter_decided_at)}</Text>
+                </View>
+                <TouchableOpacity onPress={() => decide(item, null)} disabled={savingId === item.id}>
+                  <Text style={styles.undoText}>Undo</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {groups.length === 0 ? (
+        <View style={styles.emptyCard}>
+          <Text style={styles.emptyText}>
+            Nothing forgotten. Every item has been worn in the last {months} months or already has a decision. 🎉
+          </Text>
+        </View>
+      ) : (
+        groups.map(group => (
+          <View key={group.category} style={styles.section}>
+            <View style={styles.groupHeader}>
+              <Text style={styles.sectionTitle}>
+                {categoryDisplayNames[group.category as keyof typeof categoryDisplayNames] || group.category}
+              </Text>
+              <Text style={styles.groupMeta}>
+                {group.items.length} {group.items.length === 1 ? 'item' : 'items'} · {formatSEK(group.tiedUpValue)}
+              </Text>
+            </View>
+            <View style={styles.card}>{group.items.map(renderForgottenItem)}</View>
+          </View>
+        ))
+      )}
+    </ScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  content: {
+    paddingVertical: Spacing.lg,
+  },
+
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  section: {
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+
+  sectionTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textAccent,
+    marginBottom: Spacing.md,
+  },
+
+  sectionSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: Spacing.md,
+  },
+
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+    marginRight: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  chipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  chipTextActive: {
+    color: Colors.textInverse,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+
+  summaryCard: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  summaryStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  summaryValue: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  summaryLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+
+  groupMeta: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+  },
+
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  itemRow: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  rowInfo: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+
+  rowTitle: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  rowSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+
+  rowValue: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  actions: {
+    flexDirection: 'row',
+    marginTop: Spacing.sm,
+  },
+
+  actionsLoading: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing.sm,
+  },
+
+  actionButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    marginRight: Spacing.sm,
+  },
+
+  actionText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.primary,
+  },
+
+  retireButton: {
+    borderColor: Colors.error,
+  },
+
+  retireText: {
+    color: Colors.error,
+  },
+
+  undoText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textSecondary,
+  },
+
+  emptyCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.xl,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  emptyText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.sm,
+  },
+})
@@ -1,23 +1,16 @@
-import React, { useState, useEffect } from 'react'
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, RefreshControl, Modal, Alert } from 'react-native'
-import { useFocusEffect } from '@react-navigation/native'
+import React, { useState } from 'react'
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, RefreshControl, Modal, Alert, ActivityIndicator } from 'react-native'
+import { router } from 'expo-router'
 import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
-import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
 import { formatSEK } from '../utils/currency'
+import { WardrobeStats, useWardrobeStats } from '../lib/wardrobe'
+import { exportWardrobeCsv } from '../utils/export'
+import { createBackup, parseBackup, restoreBackup } from '../utils/backup'
+import { pickTextFile } from '../utils/files'
+import { confirmAction } from '../utils/confirm'
 import QuickWearTracker from '../components/QuickWearTracker'
-
-interface WardrobeStats {
-  totalItems: number
-  totalTimesWorn: number
-  totalValue: number
-  categoryCounts: Record<string, number>
-  mostWornItem: {
-    name: string
-    times_worn: number
-  } | null
-  recentlyAdded: number
-}
+import CsvImport from '../components/CsvImport'
 
 const categoryDisplayNames = {
   'tops': 'Tops',
@@ -31,106 +24,120 @@ const categoryDisplayNames = {
   'activewear': 'Activewear',
 }
 
+const emptyStats: WardrobeStats = {
+  totalItems: 0,
+  totalTimesWorn: 0,
+  totalValue: 0,
+  totalMaintenanceCost: 0,
+  totalResaleIncome: 0,
+  totalCostOfOwnership: 0,
+  categoryCounts: {},
+  mostWornItem: null,
+  recentlyAdded: 0,
+}
+
 export default function Overview() {
   const { user, signOut } = useAuth()
-  const [stats, setStats] = useState<WardrobeStats>({
-    totalItems: 0,
-    totalTimesWorn: 0,
-    totalValue: 0,
-    categoryCounts: {},
-    mostWornItem: null,
-    recentlyAdded: 0,
-  })
-  const [isLoading, setIsLoading] = useState(true)
+  const [includeInactive, setIncludeInactive] = useState(false)
+  // Totals are computed by the database and reloaded whenever an item or wear changes
+  const { data, isLoading, refetch } = useWardrobeStats(includeInactive)
   const [refreshing, setRefreshing] = useState(false)
   const [showQuickWear, setShowQuickWear] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [backupStatus, setBackupStatus] = useState<string | null>(null) // set while a backup or restore runs
 
-  useEffect(() => {
-    if (user) {
-      fetchStats()
-    }
-  }, [user])
-
-  // Refresh data when the tab is focused (when user navigates back from other tabs)
-  useFocusEffect(
-    React.useCallback(() => {
-      if (user) {
-        fetchStats()
-      }
-    }, [user])
-  )
+  const stats = data || emptyStats
 
   const onRefresh = async () => {
     setRefreshing(true)
-    await fetchStats()
+    await refetch()
     setRefreshing(false)
   }
 
-  const fetchStats = async () => {
+  const handleExport = async () => {
+    setIsExporting(true)
     try {
-      // Get all clothing items
-      const { data: items, error } = await supabase
-        .from('clothing_items')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (error) {
-        console.error('Error fetching items:', error)
-        setIsLoading(false)
+      const result = await exportWardrobeCsv()
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to export your wardrobe. Please try again.')
         return
       }
 
-      if (!items) {
-        setIsLoading(false)
+      Alert.alert('Export Complete', `Exported ${result.itemCount} items and ${result.wearCount} wears.`)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleBackup = async () => {
+    setBackupStatus('Starting backup...')
+    try {
+      const result = await createBackup(setBackupStatus)
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to create the backup. Please try again.')
         return
       }
 
-      // Calculate statistics
-      const totalItems = items.length
-      const totalTimesWorn = items.reduce((sum, item) => sum + (item.times_worn || 0), 0)
-      const totalValue = items.reduce((sum, item) => sum + (item.purchase_price || 0), 0)
-      
-      // Category counts
-      const categoryCounts: Record<string, number> = {}
-      items.forEach(item => {
-        categoryCounts[item.category] = (categoryCounts[item.category] || 0) + 1
-      })
-
-      // Most worn item
-      const mostWornItem = items.reduce((max, item) => {
-        if (!max || (item.times_worn || 0) > (max.times_worn || 0)) {
-          return item
-        }
-        return max
-      }, null as any)
-
-      // Recently added (last 30 days)
-      const thirtyDaysAgo = new Date()
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
-      const recentlyAdded = items.filter(item => 
-        new Date(item.created_at) > thirtyDaysAgo
-      ).length
-
-      setStats({
-        totalItems,
-        totalTimesWorn,
-        totalValue,
-        categoryCounts,
-        mostWornItem: mostWornItem ? {
-          name: mostWornItem.name,
-          times_worn: mostWornItem.times_worn
-        } : null,
-        recentlyAdded,
-      })
+      const missingNote = result.missingImageCount
+        ? ` ${result.missingImageCount} photos could not be downloaded and are not included.`
+        : ''
+      Alert.alert(
+        'Backup Complete',
+        `Backed up ${result.itemCount} items, ${result.wearCount} wears and ${result.imageCount} photos.${missingNote}`
+      )
+    } finally {
+      setBackupStatus(null)
+    }
+  }
 
+  const handleRestore = async () => {
+    if (!user) return
+
+    let file
+    try {
+      file = await pickTextFile(['application/json'])
     } catch (error) {
-      console.error('Error calculating stats:', error)
+      console.error('Error reading backup file:', error)
+      Alert.alert('Error', 'Failed to read the file. Please try again.')
+      return
+    }
+    if (!file) return
+
+    const { backup, error } = parseBackup(file.content)
+    if (!backup) {
+      Alert.alert('Invalid Backup', error || 'The file could not be read.')
+      return
+    }
+
+    const confirmed = await confirmAction(
+      'Restore Backup',
+      `Add ${backup.clothing_items.length} items and ${backup.wear_history.length} wears from ${file.name} to your wardrobe? Existing items are kept.`,
+      'Restore'
+    )
+    if (!confirmed) return
+
+    setBackupStatus('Starting restore...')
+    try {
+      const result = await restoreBackup(user.id, backup, setBackupStatus)
+      if (!result.success) {
+        Alert.alert('Restore Failed', result.error)
+        return
+      }
+
+      const { itemCount, wearCount, outfitCount, failedImageCount } = result.data
+      const imageNote = failedImageCount > 0
+        ? ` ${failedImageCount} photos could not be restored.`
+        : ''
+      Alert.alert(
+        'Restore Complete',
+        `Restored ${itemCount} items, ${wearCount} wears and ${outfitCount} outfits.${imageNote}`
+      )
     } finally {
-      setIsLoading(false)
+      setBackupStatus(null)
     }
   }
 
-
   if (isLoading) {
     return (
       <View style={[styles.container, styles.centered]}>
@@ -203,6 +210,13 @@ export default function Overview() {
             <Text style={styles.statLabel}>Total Value</Text>
           </View>
         </View>
+        <TouchableOpacity style={styles.statsScopeButton} onPress={() => setIncludeInactive(prev => !prev)}>
+          <Text style={styles.statsScopeText}>
+            {includeInactive
+              ? 'Including retired, sold, donated and lost items · Show active only'
+              : 'Active items only · Include retired, sold, donated and lost'}
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Category Breakdown */}
@@ -250,15 +264,98 @@ export default function Overview() {
           <Text style={styles.insightSubtext}>Added in the last 30 days</Text>
         </View>
 
-        {stats.totalValue > 0 && stats.totalTimesWorn > 0 && (
-          <View style={styles.insightCard}>
+        {stats.totalValue > 0 && (
+          <TouchableOpacity style={styles.insightCard} onPress={() => router.push('/cost-per-wear')}>
             <Text style={styles.insightTitle}>Average Cost Per Wear</Text>
             <Text style={styles.insightValue}>
-              {formatSEK(stats.totalValue / stats.totalTimesWorn, { showDecimals: true })}
+              {stats.totalTimesWorn > 0
+                ? formatSEK(stats.totalCostOfOwnership / stats.totalTimesWorn, { showDecimals: true })
+                : 'No wears yet'}
+            </Text>
+            <Text style={styles.insightSubtext}>Across all items · tap for best and worst items ›</Text>
+          </TouchableOpacity>
+        )}
+
+        {stats.totalValue > 0 && (
+          <View style={styles.insightCard}>
+            <Text style={styles.insightTitle}>Total Cost of Ownership</Text>
+            <Text style={styles.insightValue}>{formatSEK(stats.totalCostOfOwnership)}</Text>
+            <Text style={styles.insightSubtext}>
+              {formatSEK(stats.totalValue)} purchases + {formatSEK(stats.totalMaintenanceCost)} care & repairs
+              {' '}− {formatSEK(stats.totalResaleIncome)} resale
             </Text>
-            <Text style={styles.insightSubtext}>Across all items</Text>
           </View>
         )}
+
+        <TouchableOpacity style={styles.insightCard} onPress={() => router.push('/suggestions')}>
+          <Text style={styles.insightTitle}>What to Wear</Text>
+          <Text style={styles.insightValue}>Today's outfit</Text>
+          <Text style={styles.insightSubtext}>A suggestion for today's weather from your clean clothes ›</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.insightCard} onPress={() => router.push('/calendar')}>
+          <Text style={styles.insightTitle}>Wear Calendar</Text>
+          <Text style={styles.insightValue}>{stats.totalTimesWorn} wears logged</Text>
+          <Text style={styles.insightSubtext}>See what you wore each day and fix missed wears ›</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.insightCard} onPress={() => router.push('/laundry')}>
+          <Text style={styles.insightTitle}>Laundry</Text>
+          <Text style={styles.insightValue}>Clean and in the wash</Text>
+          <Text style={styles.insightSubtext}>Start a load or mark one clean ›</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.insightCard} onPress={() => router.push('/declutter')}>
+          <Text style={styles.insightTitle}>Forgotten Items</Text>
+          <Text style={styles.insightValue}>Declutter your closet</Text>
+          <Text style={styles.insightSubtext}>Decide what to wear, keep or retire ›</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.insightCard} onPress={() => router.push('/trips')}>
+          <Text style={styles.insightTitle}>Trips</Text>
+          <Text style={styles.insightValue}>Packing lists</Text>
+          <Text style={styles.insightSubtext}>Plan what to bring and log the wears when you are back ›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Data */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Your Data</Text>
+        <TouchableOpacity
+          style={[styles.dataButton, isExporting && styles.dataButtonDisabled]}
+          onPress={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <>
+              <Text style={styles.dataButtonTitle}>📤 Export to CSV</Text>
+              <Text style={styles.dataButtonSubtitle}>Items and wear history as two spreadsheet files</Text>
+            </>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.dataButton} onPress={() => setShowImport(true)}>
+          <Text style={styles.dataButtonTitle}>📥 Import from CSV</Text>
+          <Text style={styles.dataButtonSubtitle}>Add many items at once from a spreadsheet</Text>
+        </TouchableOpacity>
+        {backupStatus ? (
+          <View style={[styles.dataButton, styles.backupProgress]}>
+            <ActivityIndicator size="small" color={Colors.primary} />
+            <Text style={styles.backupProgressText}>{backupStatus}</Text>
+          </View>
+        ) : (
+          <>
+            <TouchableOpacity style={styles.dataButton} onPress={handleBackup}>
+              <Text style={styles.dataButtonTitle}>💾 Back Up Everything</Text>
+              <Text style={styles.dataButtonSubtitle}>Items, wear history, outfits and photos in one file</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.dataButton} onPress={handleRestore}>
+              <Text style={styles.dataButtonTitle}>♻️ Restore from Backup</Text>
+              <Text style={styles.dataButtonSubtitle}>Add everything from a backup file to this account</Text>
+            </TouchableOpacity>
+          </>
+        )}
       </View>
 
       {/* Quick Actions */}
@@ -292,11 +389,16 @@ export default function Overview() {
             <Text style={styles.modalTitle}>Quick Wear Tracking</Text>
             <View style={styles.modalSpacer} />
           </View>
-          <QuickWearTracker onWearAdded={() => {
-            fetchStats() // Refresh stats when wear is added
-          }} />
+          <QuickWearTracker />
         </View>
       </Modal>
+
+      {showImport && (
+        <CsvImport
+          onClose={() => setShowImport(false)}
+          onImported={() => setShowImport(false)}
+        />
+      )}
     </View>
   )
 }
@@ -351,6 +453,16 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
   },
 
+  statsScopeButton: {
+    marginTop: Spacing.sm,
+    alignSelf: 'center',
+  },
+
+  statsScopeText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textTertiary,
+  },
+
   statCard: {
     flex: 1,
     backgroundColor: Colors.surface,
@@ -447,6 +559,44 @@ const styles = StyleSheet.create({
     color: Colors.textTertiary,
   },
 
+  dataButton: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  dataButtonDisabled: {
+    opacity: 0.6,
+    alignItems: 'center',
+  },
+
+  dataButtonTitle: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.xs,
+  },
+
+  dataButtonSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+  },
+
+  backupProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  backupProgressText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginLeft: Spacing.sm,
+  },
+
   emptyStateCard: {
     backgroundColor: Colors.surface,
     borderRadius: BorderRadius.md,
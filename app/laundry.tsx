@@ -0,0 +1,358 @@
+import React, { useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
+import { formatDisplayDate } from '../utils/dates'
+import { isActiveItem } from '../utils/itemFilters'
+import { ClothingItem, LaundryState, updateLaundry, useItems } from '../lib/wardrobe'
+
+const categoryIcons = {
+  'tops': '👕',
+  'bottoms': '👖',
+  'dresses_jumpsuits': '👗',
+  'shoes': '👟',
+  'accessories': '👒',
+  'outerwear': '🧥',
+  'underwear': '🩲',
+  'sleepwear': '🩱',
+  'activewear': '🏃‍♀️',
+}
+
+export default function Laundry() {
+  const { data: items = [], isLoading, refetch } = useItems()
+  const [refreshing, setRefreshing] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const activeItems = items.filter(isActiveItem)
+  const inWash = activeItems.filter(item => item.laundry_state === 'in_wash')
+  const needsWash = activeItems.filter(item => item.laundry_state === 'needs_wash')
+  const cleanCount = activeItems.length - inWash.length - needsWash.length
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await refetch()
+    setRefreshing(false)
+  }
+
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]
+    )
+  }
+
+  const moveItems = async (itemIds: string[], laundryState: LaundryState) => {
+    if (itemIds.length === 0 || isSaving) return
+
+    setIsSaving(true)
+    try {
+      const result = await updateLaundry(itemIds, laundryState)
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to update the laundry. Please try again.')
+        return
+      }
+      setSelectedIds([])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Without a selection, the whole pile goes into the load
+  const selectedInPile = needsWash.filter(item => selectedIds.includes(item.id)).map(item => item.id)
+  const loadIds = selectedInPile.length > 0 ? selectedInPile : needsWash.map(item => item.id)
+
+  const renderItem = (item: ClothingItem, selectable: boolean) => {
+    const primaryImage = item.image_urls && item.image_urls.length > 0 ? item.image_urls[0] : null
+    const categoryIcon = categoryIcons[item.category as keyof typeof categoryIcons] || '👕'
+    const isSelected = selectedIds.includes(item.id)
+
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={[styles.itemRow, isSelected && styles.itemRowSelected]}
+        onPress={() => toggleSelected(item.id)}
+        disabled={!selectable}
+        activeOpacity={0.7}
+      >
+        <View style={styles.thumbnail}>
+          {primaryImage ? (
+            <Image source={{ uri: primaryImage }} style={styles.thumbnailImage} resizeMode="cover" />
+          ) : (
+            <Text style={styles.thumbnailIcon}>{categoryIcon}</Text>
+          )}
+        </View>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.itemMeta}>
+            Worn {item.wears_since_wash} {item.wears_since_wash === 1 ? 'time' : 'times'} since
+            {item.last_washed_date ? ` washing on ${formatDisplayDate(item.last_washed_date)}` : ' it was added'}
+          </Text>
+        </View>
+        {selectable && (
+          <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+            {isSelected && <Text style={styles.checkmark}>✓</Text>}
+          </View>
+        )}
+      </TouchableOpacity>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    )
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          tintColor={Colors.primary}
+          colors={[Colors.primary]}
+        />
+      }
+    >
+      <View style={styles.summaryCard}>
+        <View style={styles.summaryStat}>
+          <Text style={styles.summaryValue}>{cleanCount}</Text>
+          <Text style={styles.summaryLabel}>Clean</Text>
+        </View>
+        <View style={styles.summaryStat}>
+          <Text style={styles.summaryValue}>{needsWash.length}</Text>
+          <Text style={styles.summaryLabel}>Needs washing</Text>
+        </View>
+        <View style={styles.summaryStat}>
+          <Text style={styles.summaryValue}>{inWash.length}</Text>
+          <Text style={styles.summaryLabel}>In the wash</Text>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>In the Wash</Text>
+          {inWash.length > 0 && (
+            <TouchableOpacity
+              style={[styles.actionButton, isSaving && styles.actionButtonDisabled]}
+              onPress={() => moveItems(inWash.map(item => item.id), 'clean')}
+              disabled={isSaving}
+            >
+              <Text style={styles.actionButtonText}>✓ Load is clean</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {inWash.length === 0 ? (
+          <Text style={styles.emptyText}>Nothing in the wash</Text>
+        ) : (
+          inWash.map(item => renderItem(item, false))
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Needs Washing</Text>
+          {needsWash.length > 0 && (
+            <TouchableOpacity
+              style={[styles.actionButton, isSaving && styles.actionButtonDisabled]}
+              onPress={() => moveItems(loadIds, 'in_wash')}
+              disabled={isSaving}
+            >
+              <Text style={styles.actionButtonText}>
+                {selectedInPile.length > 0 ? `Wash ${selectedInPile.length} selected` : 'Wash all'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {needsWash.length === 0 ? (
+          <Text style={styles.emptyText}>Everything is clean 🎉</Text>
+        ) : (
+          <>
+            <Text style={styles.sectionSubtitle}>Tap items to pick a smaller load</Text>
+            {needsWash.map(item => renderItem(item, true))}
+          </>
+        )}
+      </View>
+
+      {isSaving && <ActivityIndicator size="small" color={Colors.primary} />}
+    </ScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  content: {
+    paddingVertical: Spacing.lg,
+  },
+
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  summaryCard: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  summaryStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  summaryValue: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  summaryLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+
+  section: {
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+
+  sectionTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textAccent,
+  },
+
+  sectionSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    marginBottom: Spacing.md,
+  },
+
+  actionButton: {
+    backgroundColor: Colors.primary,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+
+  actionButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  itemRowSelected: {
+    borderColor: Colors.primary,
+  },
+
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    backgroundColor: Colors.backgroundSecondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.md,
+  },
+
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  thumbnailIcon: {
+    fontSize: 22,
+  },
+
+  itemInfo: {
+    flex: 1,
+  },
+
+  itemName: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+  },
+
+  itemMeta: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  checkboxSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  checkmark: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textInverse,
+  },
+
+  emptyText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.md,
+  },
+})
@@ -0,0 +1,415 @@
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { useFocusEffect } from '@react-navigation/native'
+import { router, useLocalSearchParams } from 'expo-router'
+import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
+import { useAuth } from '../contexts/AuthContext'
+import OutfitBuilder from '../components/OutfitBuilder'
+import DateSelector from '../components/DateSelector'
+import { Outfit, fetchOutfits, deleteOutfit, wearOutfit } from '../utils/outfits'
+import { confirmAction } from '../utils/confirm'
+import { getTodayString } from '../utils/dates'
+
+const categoryIcons = {
+  'tops': '👕',
+  'bottoms': '👖',
+  'dresses_jumpsuits': '👗',
+  'shoes': '👟',
+  'accessories': '👒',
+  'outerwear': '🧥',
+  'underwear': '🩲',
+  'sleepwear': '🩱',
+  'activewear': '🏃‍♀️',
+}
+
+export default function Outfits() {
+  const { user } = useAuth()
+  // Set when an outfit is opened from an item's detail view
+  const { outfitId } = useLocalSearchParams<{ outfitId?: string }>()
+  const [outfits, setOutfits] = useState<Outfit[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [wearDate, setWearDate] = useState(getTodayString())
+  const [wearingId, setWearingId] = useState<string | null>(null)
+  const [editingOutfit, setEditingOutfit] = useState<Outfit | null>(null)
+  const [showBuilder, setShowBuilder] = useState(false)
+
+  // Refresh when the tab is focused, since items may have changed elsewhere
+  useFocusEffect(
+    React.useCallback(() => {
+      if (user) {
+        loadOutfits()
+      }
+    }, [user])
+  )
+
+  const loadOutfits = async () => {
+    const result = await fetchOutfits()
+    if (result.success) {
+      setOutfits(result.data)
+    } else {
+      Alert.alert('Error', 'Failed to load outfits. Please try again.')
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    const outfit = outfitId ? outfits.find(o => o.id === outfitId) : undefined
+    if (!outfit) return
+
+    openBuilder(outfit)
+    router.setParams({ outfitId: undefined })
+  }, [outfitId, outfits])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadOutfits()
+    setRefreshing(false)
+  }
+
+  const openBuilder = (outfit: Outfit | null) => {
+    setEditingOutfit(outfit)
+    setShowBuilder(true)
+  }
+
+  const closeBuilder = () => {
+    setShowBuilder(false)
+    setEditingOutfit(null)
+  }
+
+  const handleWear = async (outfit: Outfit) => {
+    if (!user || wearingId) return
+
+    setWearingId(outfit.id)
+    try {
+      const result = await wearOutfit(user.id, outfit, wearDate)
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to log outfit. Please try again.')
+        return
+      }
+
+      setOutfits(prev => prev.map(o =>
+        o.id === outfit.id ? { ...o, times_worn: o.times_worn + 1 } : o
+      ))
+      Alert.alert(
+        result.data.queued ? 'Saved Offline' : 'Success',
+        `Logged ${outfit.items.length} items as worn!` +
+          (result.data.queued ? ' They will sync when you are back online.' : '')
+      )
+    } finally {
+      setWearingId(null)
+    }
+  }
+
+  const handleDelete = async (outfit: Outfit) => {
+    const confirmed = await confirmAction(
+      'Delete Outfit',
+      `Delete "${outfit.name}"? Wears already logged for its items are kept.`
+    )
+    if (!confirmed) return
+
+    const result = await deleteOutfit(outfit.id)
+    if (!result.success) {
+      Alert.alert('Error', 'Failed to delete outfit. Please try again.')
+      return
+    }
+
+    setOutfits(prev => prev.filter(o => o.id !== outfit.id))
+  }
+
+  const renderOutfit = ({ item: outfit }: { item: Outfit }) => {
+    const isWearing = wearingId === outfit.id
+
+    return (
+      <View style={styles.outfitCard}>
+        <View style={styles.outfitHeader}>
+          <View style={styles.outfitInfo}>
+            <Text style={styles.outfitName}>{outfit.name}</Text>
+            <Text style={styles.outfitMeta}>
+              {outfit.items.length} items · worn {outfit.times_worn} {outfit.times_worn === 1 ? 'time' : 'times'}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.wearButton, isWearing && styles.wearButtonLoading]}
+            onPress={() => handleWear(outfit)}
+            disabled={isWearing}
+          >
+            {isWearing ? (
+              <ActivityIndicator size="small" color={Colors.textInverse} />
+            ) : (
+              <Text style={styles.wearButtonText}>Wear</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.thumbnailRow}>
+          {outfit.items.map(item => {
+            const primaryImage = item.image_urls && item.image_urls.length > 0 ? item.image_urls[0] : null
+            return (
+              <View key={item.id} style={styles.thumbnail}>
+                {primaryImage ? (
+                  <Image source={{ uri: primaryImage }} style={styles.thumbnailImage} resizeMode="cover" />
+                ) : (
+                  <Text style={styles.thumbnailIcon}>
+                    {categoryIcons[item.category as keyof typeof categoryIcons] || '👕'}
+                  </Text>
+                )}
+              </View>
+            )
+          })}
+        </View>
+
+        {outfit.notes && <Text style={styles.outfitNotes}>{outfit.notes}</Text>}
+
+        <View style={styles.outfitActions}>
+          <TouchableOpacity onPress={() => openBuilder(outfit)}>
+            <Text style={styles.actionText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(outfit)}>
+            <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+        <Text style={styles.loadingText}>Loading outfits...</Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <DateSelector value={wearDate} onChange={setWearDate} label="Date worn" />
+        <TouchableOpacity style={styles.newButton} onPress={() => openBuilder(null)}>
+          <Text style={styles.newButtonText}>+ New Outfit</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={outfits}
+        renderItem={renderOutfit}
+        keyExtractor={outfit => outfit.id}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={Colors.primary}
+            colors={[Colors.primary]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🧩</Text>
+            <Text style={styles.emptyTitle}>No outfits yet</Text>
+            <Text style={styles.emptySubtitle}>
+              Combine items you often wear together and log them in one tap.
+            </Text>
+          </View>
+        }
+      />
+
+      {showBuilder && (
+        <OutfitBuilder
+          outfit={editingOutfit || undefined}
+          onClose={closeBuilder}
+          onSaved={() => {
+            closeBuilder()
+            loadOutfits()
+          }}
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  toolbar: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing.sm,
+    backgroundColor: Colors.backgroundSecondary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+
+  newButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+  },
+
+  newButtonText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  listContainer: {
+    padding: Spacing.lg,
+    flexGrow: 1,
+  },
+
+  outfitCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  outfitHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+
+  outfitInfo: {
+    flex: 1,
+  },
+
+  outfitName: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+
+  outfitMeta: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  wearButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+
+  wearButtonLoading: {
+    opacity: 0.7,
+  },
+
+  wearButtonText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textInverse,
+  },
+
+  thumbnailRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    backgroundColor: Colors.backgroundSecondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.xs,
+    marginBottom: Spacing.xs,
+  },
+
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  thumbnailIcon: {
+    fontSize: 20,
+  },
+
+  outfitNotes: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+
+  outfitActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.lg,
+    marginTop: Spacing.sm,
+  },
+
+  actionText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.primary,
+  },
+
+  deleteText: {
+    color: Colors.error,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+    padding: Spacing.xl,
+  },
+
+  loadingText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    marginTop: Spacing.md,
+  },
+
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.xl,
+  },
+
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: Spacing.lg,
+  },
+
+  emptyTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.sm,
+  },
+
+  emptySubtitle: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+})
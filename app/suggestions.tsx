@@ -0,0 +1,404 @@
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
+import { useAuth } from '../contexts/AuthContext'
+import { ClothingItem, recordWears, useItems } from '../lib/wardrobe'
+import { Forecast, getWeatherProvider } from '../lib/weather'
+import { getTodayString } from '../utils/dates'
+import { OutfitSlot, RECENT_WEAR_DAYS, suggestOutfit, warmthOptions } from '../utils/outfitSuggestions'
+
+const categoryIcons = {
+  'tops': '👕',
+  'bottoms': '👖',
+  'dresses_jumpsuits': '👗',
+  'shoes': '👟',
+  'accessories': '👒',
+  'outerwear': '🧥',
+  'underwear': '🩲',
+  'sleepwear': '🩱',
+  'activewear': '🏃‍♀️',
+}
+
+const slotLabels: Record<OutfitSlot, string> = {
+  top: 'Top',
+  bottom: 'Bottoms',
+  dress: 'Dress / Jumpsuit',
+  shoes: 'Shoes',
+  outerwear: 'Outerwear',
+}
+
+export default function Suggestions() {
+  const { user } = useAuth()
+  const { data: items = [], isLoading, refetch } = useItems()
+  const [forecast, setForecast] = useState<Forecast | null>(null)
+  const [forecastError, setForecastError] = useState(false)
+  const [refreshing, setRefreshing] = useState(false)
+  const [excludeIds, setExcludeIds] = useState<string[]>([])
+  const [isWearing, setIsWearing] = useState(false)
+
+  const today = getTodayString()
+
+  const loadForecast = async () => {
+    try {
+      setForecast(await getWeatherProvider().getForecast(getTodayString()))
+      setForecastError(false)
+    } catch (error) {
+      console.error('Error fetching forecast:', error)
+      setForecastError(true)
+    }
+  }
+
+  useEffect(() => {
+    loadForecast()
+  }, [])
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await Promise.all([loadForecast(), refetch()])
+    setExcludeIds([])
+    setRefreshing(false)
+  }
+
+  const suggestion = forecast ? suggestOutfit(items, forecast, today, excludeIds) : null
+  const suggestedItems = suggestion
+    ? (Object.entries(suggestion.items) as [OutfitSlot, ClothingItem][])
+    : []
+  const warmth = warmthOptions.find(option => option.key === suggestion?.warmth)
+
+  const handleAnother = () => {
+    setExcludeIds(prev => [...prev, ...suggestedItems.map(([, item]) => item.id)])
+  }
+
+  const handleWear = async () => {
+    if (!user || suggestedItems.length === 0) return
+
+    setIsWearing(true)
+    try {
+      // Queued locally when offline; the items' stats update everywhere
+      const result = await recordWears(
+        user.id,
+        suggestedItems.map(([, item]) => ({ clothing_item_id: item.id, date_worn: today }))
+      )
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to log the outfit. Please try again.')
+        return
+      }
+
+      setExcludeIds([])
+      Alert.alert('Success', `Logged ${suggestedItems.length} items as worn!`)
+    } finally {
+      setIsWearing(false)
+    }
+  }
+
+  const renderSlot = (slot: OutfitSlot) => {
+    const item = suggestion?.items[slot]
+    const primaryImage = item?.image_urls && item.image_urls.length > 0 ? item.image_urls[0] : null
+
+    return (
+      <View key={slot} style={styles.slotRow}>
+        <View style={styles.thumbnail}>
+          {primaryImage ? (
+            <Image source={{ uri: primaryImage }} style={styles.thumbnailImage} resizeMode="cover" />
+          ) : (
+            <Text style={styles.thumbnailIcon}>
+              {item ? categoryIcons[item.category as keyof typeof categoryIcons] || '👕' : '➖'}
+            </Text>
+          )}
+        </View>
+        <View style={styles.slotInfo}>
+          <Text style={styles.slotLabel}>{slotLabels[slot]}</Text>
+          {item ? (
+            <Text style={styles.slotName} numberOfLines={1}>
+              {item.name}
+              {suggestion?.isWet && item.waterproof && (slot === 'shoes' || slot === 'outerwear') ? ' ☔' : ''}
+            </Text>
+          ) : (
+            <Text style={styles.slotMissing}>Nothing clean and suitable</Text>
+          )}
+        </View>
+      </View>
+    )
+  }
+
+  if (isLoading || (!forecast && !forecastError)) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    )
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          tintColor={Colors.primary}
+          colors={[Colors.primary]}
+        />
+      }
+    >
+      {/* Forecast */}
+      <View style={styles.forecastCard}>
+        {forecast ? (
+          <>
+            <Text style={styles.forecastTemperature}>
+              {Math.round(forecast.minTemperature)}° – {Math.round(forecast.maxTemperature)}°
+            </Text>
+            <Text style={styles.forecastDetail}>
+              {forecast.precipitation > 0 ? `🌧️ ${forecast.precipitation} mm` : 'No rain expected'}
+              {warmth ? ` · ${warmth.icon} ${warmth.label} clothes` : ''}
+            </Text>
+            <Text style={styles.forecastSource}>Forecast: {forecast.source}</Text>
+          </>
+        ) : (
+          <>
+            <Text style={styles.forecastDetail}>The forecast could not be loaded.</Text>
+            <TouchableOpacity onPress={loadForecast}>
+              <Text style={styles.retryText}>Try again</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {/* Suggestion */}
+      {suggestion && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Today's Suggestion</Text>
+          <Text style={styles.sectionSubtitle}>
+            From clean items not worn in the last {RECENT_WEAR_DAYS} days
+          </Text>
+          <View style={styles.suggestionCard}>
+            {suggestion.slots.map(renderSlot)}
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.secondaryButton, suggestedItems.length === 0 && styles.buttonDisabled]}
+              onPress={handleAnother}
+              disabled={suggestedItems.length === 0}
+            >
+              <Text style={styles.secondaryButtonText}>↻ Another</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, (isWearing || suggestedItems.length === 0) && styles.buttonDisabled]}
+              onPress={handleWear}
+              disabled={isWearing || suggestedItems.length === 0}
+            >
+              {isWearing ? (
+                <ActivityIndicator size="small" color={Colors.textInverse} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Wear this today</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {excludeIds.length > 0 && (
+            <TouchableOpacity onPress={() => setExcludeIds([])}>
+              <Text style={styles.resetText}>Start over with every item</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <Text style={styles.hintText}>
+        Set how warm each item is, and whether it is waterproof, when editing it in your wardrobe.
+      </Text>
+    </ScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  content: {
+    paddingVertical: Spacing.lg,
+  },
+
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  forecastCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    ...Shadow.sm,
+  },
+
+  forecastTemperature: {
+    fontSize: Typography.fontSize.xxl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.primary,
+  },
+
+  forecastDetail: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+
+  forecastSource: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textTertiary,
+    marginTop: Spacing.sm,
+  },
+
+  retryText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.primary,
+    marginTop: Spacing.sm,
+  },
+
+  section: {
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+
+  sectionTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textAccent,
+  },
+
+  sectionSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+
+  suggestionCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.sm,
+  },
+
+  thumbnail: {
+    width: 52,
+    height: 52,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    backgroundColor: Colors.backgroundSecondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.md,
+  },
+
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  thumbnailIcon: {
+    fontSize: 24,
+  },
+
+  slotInfo: {
+    flex: 1,
+  },
+
+  slotLabel: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textTertiary,
+    textTransform: 'uppercase',
+  },
+
+  slotName: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textPrimary,
+    marginTop: 2,
+  },
+
+  slotMissing: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+
+  primaryButton: {
+    flex: 2,
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+  },
+
+  primaryButtonText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  secondaryButtonText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+  },
+
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+
+  resetText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+    textAlign: 'center',
+    marginTop: Spacing.md,
+  },
+
+  hintText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    textAlign: 'center',
+    paddingHorizontal: Spacing.xl,
+  },
+})
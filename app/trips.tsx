@@ -0,0 +1,526 @@
+import React, { useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { useFocusEffect } from '@react-navigation/native'
+import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
+import { useAuth } from '../contexts/AuthContext'
+import TripPlanner from '../components/TripPlanner'
+import { Trip, TripItem, deleteTrip, fetchTrips, getTripWears, hasTripEnded, logTripWears, setTripItemPacked } from '../utils/trips'
+import { tripActivities } from '../utils/packing'
+import { confirmAction } from '../utils/confirm'
+import { formatDisplayDate } from '../utils/dates'
+
+const categoryIcons = {
+  'tops': '👕',
+  'bottoms': '👖',
+  'dresses_jumpsuits': '👗',
+  'shoes': '👟',
+  'accessories': '👒',
+  'outerwear': '🧥',
+  'underwear': '🩲',
+  'sleepwear': '🩱',
+  'activewear': '🏃‍♀️',
+}
+
+export default function Trips() {
+  const { user } = useAuth()
+  const [trips, setTrips] = useState<Trip[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [loggingId, setLoggingId] = useState<string | null>(null)
+  const [editingTrip, setEditingTrip] = useState<Trip | null>(null)
+  const [showPlanner, setShowPlanner] = useState(false)
+
+  // Refresh when the screen is focused, since items may have changed elsewhere
+  useFocusEffect(
+    React.useCallback(() => {
+      if (user) {
+        loadTrips()
+      }
+    }, [user])
+  )
+
+  const loadTrips = async () => {
+    const result = await fetchTrips()
+    if (result.success) {
+      setTrips(result.data)
+    } else {
+      Alert.alert('Error', 'Failed to load trips. Please try again.')
+    }
+    setIsLoading(false)
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadTrips()
+    setRefreshing(false)
+  }
+
+  const openPlanner = (trip: Trip | null) => {
+    setEditingTrip(trip)
+    setShowPlanner(true)
+  }
+
+  const closePlanner = () => {
+    setShowPlanner(false)
+    setEditingTrip(null)
+  }
+
+  const updateTripItems = (tripId: string, updater: (items: TripItem[]) => TripItem[]) => {
+    setTrips(prev => prev.map(trip => (trip.id === tripId ? { ...trip, items: updater(trip.items) } : trip)))
+  }
+
+  const handleTogglePacked = async (trip: Trip, item: TripItem) => {
+    const packed = !item.packed
+    const setPacked = (value: boolean) =>
+      updateTripItems(trip.id, items => items.map(i => (i.id === item.id ? { ...i, packed: value } : i)))
+
+    // Tick straight away and undo if the change could not be saved
+    setPacked(packed)
+    const result = await setTripItemPacked(trip.id, item.id, packed)
+    if (!result.success) {
+      setPacked(!packed)
+      Alert.alert('Error', 'Failed to update the packing list. Please try again.')
+    }
+  }
+
+  const handleLogWears = async (trip: Trip) => {
+    if (!user || loggingId) return
+
+    const wears = getTripWears(trip)
+    const dayCount = new Set(wears.map(wear => wear.date_worn)).size
+    const confirmed = await confirmAction(
+      'Log Trip Wears',
+      `Log ${wears.length} wears of your packed items over ${dayCount} ${dayCount === 1 ? 'day' : 'days'} in ${trip.destination}? Each day counts one packed item per category.`,
+      'Log Wears'
+    )
+    if (!confirmed) return
+
+    setLoggingId(trip.id)
+    try {
+      const result = await logTripWears(user.id, trip)
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to log trip wears. Please try again.')
+        return
+      }
+
+      setTrips(prev => prev.map(t =>
+        t.id === trip.id ? { ...t, wears_logged_at: new Date().toISOString() } : t
+      ))
+      Alert.alert('Success', `Logged ${result.data} wears from your trip!`)
+    } finally {
+      setLoggingId(null)
+    }
+  }
+
+  const handleDelete = async (trip: Trip) => {
+    const confirmed = await confirmAction(
+      'Delete Trip',
+      `Delete the trip to ${trip.destination}? Wears already logged for it are kept.`
+    )
+    if (!confirmed) return
+
+    const result = await deleteTrip(trip.id)
+    if (!result.success) {
+      Alert.alert('Error', 'Failed to delete trip. Please try again.')
+      return
+    }
+
+    setTrips(prev => prev.filter(t => t.id !== trip.id))
+  }
+
+  const renderPackingItem = (trip: Trip, item: TripItem) => {
+    const primaryImage = item.image_urls && item.image_urls.length > 0 ? item.image_urls[0] : null
+
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={styles.packingRow}
+        onPress={() => handleTogglePacked(trip, item)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.checkbox, item.packed && styles.checkboxSelected]}>
+          {item.packed && <Text style={styles.checkmark}>✓</Text>}
+        </View>
+        <View style={styles.thumbnail}>
+          {primaryImage ? (
+            <Image source={{ uri: primaryImage }} style={styles.thumbnailImage} resizeMode="cover" />
+          ) : (
+            <Text style={styles.thumbnailIcon}>
+              {categoryIcons[item.category as keyof typeof categoryIcons] || '👕'}
+            </Text>
+          )}
+        </View>
+        <Text style={[styles.packingName, item.packed && styles.packingNamePacked]} numberOfLines={1}>
+          {item.name}
+        </Text>
+      </TouchableOpacity>
+    )
+  }
+
+  const renderTrip = ({ item: trip }: { item: Trip }) => {
+    const isExpanded = expandedId === trip.id
+    const isLogging = loggingId === trip.id
+    const packedCount = trip.items.filter(item => item.packed).length
+    const hasEnded = hasTripEnded(trip)
+    const activityIcons = tripActivities
+      .filter(activity => trip.activities.includes(activity.key))
+      .map(activity => activity.icon)
+      .join(' ')
+
+    return (
+      <View style={styles.tripCard}>
+        <TouchableOpacity
+          style={styles.tripHeader}
+          onPress={() => setExpandedId(isExpanded ? null : trip.id)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.tripInfo}>
+            <Text style={styles.tripName}>{trip.destination}</Text>
+            <Text style={styles.tripMeta}>
+              {formatDisplayDate(trip.start_date)} – {formatDisplayDate(trip.end_date)}
+              {activityIcons ? ` · ${activityIcons}` : ''}
+              {trip.brings_dog ? ' · 🐕' : ''}
+            </Text>
+            <Text style={styles.tripMeta}>
+              {packedCount} of {trip.items.length} packed
+            </Text>
+          </View>
+          <Text style={styles.expandIcon}>{isExpanded ? '▾' : '▸'}</Text>
+        </TouchableOpacity>
+
+        {isExpanded && (
+          <View style={styles.packingList}>
+            {trip.items.length === 0 ? (
+              <Text style={styles.packingEmpty}>No items on the packing list yet. Edit the trip to add some.</Text>
+            ) : (
+              trip.items.map(item => renderPackingItem(trip, item))
+            )}
+          </View>
+        )}
+
+        {trip.notes && <Text style={styles.tripNotes}>{trip.notes}</Text>}
+
+        {hasEnded && (
+          trip.wears_logged_at ? (
+            <Text style={styles.loggedText}>✓ Trip wears logged</Text>
+          ) : (
+            <TouchableOpacity
+              style={[styles.logButton, (isLogging || packedCount === 0) && styles.logButtonDisabled]}
+              onPress={() => handleLogWears(trip)}
+              disabled={isLogging || packedCount === 0}
+            >
+              {isLogging ? (
+                <ActivityIndicator size="small" color={Colors.textInverse} />
+              ) : (
+                <Text style={styles.logButtonText}>
+                  {packedCount === 0 ? 'Tick packed items to log wears' : 'Back home? Log trip wears'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          )
+        )}
+
+        <View style={styles.tripActions}>
+          <TouchableOpacity onPress={() => openPlanner(trip)}>
+            <Text style={styles.actionText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(trip)}>
+            <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+        <Text style={styles.loadingText}>Loading trips...</Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <TouchableOpacity style={styles.newButton} onPress={() => openPlanner(null)}>
+          <Text style={styles.newButtonText}>+ New Trip</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={trips}
+        renderItem={renderTrip}
+        keyExtractor={trip => trip.id}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={Colors.primary}
+            colors={[Colors.primary]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🧳</Text>
+            <Text style={styles.emptyTitle}>No trips yet</Text>
+            <Text style={styles.emptySubtitle}>
+              Plan a trip to get a packing list from your wardrobe, and log the wears when you are back.
+            </Text>
+          </View>
+        }
+      />
+
+      {showPlanner && (
+        <TripPlanner
+          trip={editingTrip || undefined}
+          onClose={closePlanner}
+          onSaved={() => {
+            closePlanner()
+            loadTrips()
+          }}
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  toolbar: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing.sm,
+    backgroundColor: Colors.backgroundSecondary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+
+  newButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+  },
+
+  newButtonText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  listContainer: {
+    padding: Spacing.lg,
+    flexGrow: 1,
+  },
+
+  tripCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  tripHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  tripInfo: {
+    flex: 1,
+  },
+
+  tripName: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+
+  tripMeta: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  expandIcon: {
+    fontSize: Typography.fontSize.lg,
+    color: Colors.textSecondary,
+    paddingHorizontal: Spacing.sm,
+  },
+
+  packingList: {
+    marginTop: Spacing.md,
+  },
+
+  packingEmpty: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+  },
+
+  packingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+  },
+
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.sm,
+  },
+
+  checkboxSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  checkmark: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textInverse,
+  },
+
+  thumbnail: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    backgroundColor: Colors.backgroundSecondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.sm,
+  },
+
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  thumbnailIcon: {
+    fontSize: 18,
+  },
+
+  packingName: {
+    flex: 1,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+  },
+
+  packingNamePacked: {
+    color: Colors.textTertiary,
+    textDecorationLine: 'line-through',
+  },
+
+  tripNotes: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+  },
+
+  logButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+    marginTop: Spacing.md,
+  },
+
+  logButtonDisabled: {
+    opacity: 0.6,
+  },
+
+  logButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  loggedText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.success,
+    fontWeight: Typography.fontWeight.medium,
+    marginTop: Spacing.md,
+  },
+
+  tripActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.lg,
+    marginTop: Spacing.sm,
+  },
+
+  actionText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.primary,
+  },
+
+  deleteText: {
+    color: Colors.error,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+    padding: Spacing.xl,
+  },
+
+  loadingText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    marginTop: Spacing.md,
+  },
+
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.xl,
+  },
+
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: Spacing.lg,
+  },
+
+  emptyTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.sm,
+  },
+
+  emptySubtitle: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+})
@@ -11,14 +11,15 @@ import {
 } from 'react-native'
 import { router } from 'expo-router'
 import { Colors, Spacing, Typography, BorderRadius, GlobalStyles } from '../constants'
-import { supabase } from '../lib/supabase'
+import { ClothingCategory, createItem } from '../lib/wardrobe'
 import { useAuth } from '../contexts/AuthContext'
 import ClothingImagePicker from './ImagePicker'
 import { uploadMultipleImages } from '../utils/imageUpload'
 import SearchableDropdown from './SearchableDropdown'
 import { getSuggestions, addToSuggestionsCache, SuggestionsData } from '../utils/suggestions'
 
-interface ClothingItem {
+// Form values as typed, before they are converted to column values
+interface ItemFormData {
   name: string
   category: string
   subcategory: string
@@ -31,6 +32,7 @@ interface ClothingItem {
   purchase_location: string
   second_hand: boolean
   dog_wear: boolean
+  waterproof: boolean
   times_worn: string
   notes: string
   images: string[]
@@ -50,7 +52,7 @@ const categories = [
 
 export default function AddItem() {
   const { user } = useAuth()
-  const [item, setItem] = useState<ClothingItem>({
+  const [item, setItem] = useState<ItemFormData>({
     name: '',
     category: '',
     subcategory: '',
@@ -63,6 +65,7 @@ export default function AddItem() {
     purchase_location: '',
     second_hand: false,
     dog_wear: false,
+    waterproof: false,
     times_worn: '0',
     notes: '',
     images: [],
@@ -81,11 +84,10 @@ export default function AddItem() {
   const loadSuggestions = async () => {
     if (!user) return
     
-    try {
-      const suggestionsData = await getSuggestions(user.id)
-      setSuggestions(suggestionsData)
-    } catch (error) {
-      console.error('Error loading suggestions:', error)
+    // Without suggestions the fields are plain text inputs, so a failure is only logged
+    const result = await getSuggestions()
+    if (result.success) {
+      setSuggestions(result.data)
     }
   }
 
@@ -157,9 +159,8 @@ export default function AddItem() {
     try {
       // Prepare data for insertion
       const clothingItemData = {
-        user_id: user!.id,
         name: item.name.trim(),
-        category: item.category,
+        category: item.category as ClothingCategory,
         subcategory: item.subcategory.trim() || null,
         brand: item.brand.trim() || null,
         color: item.color.trim() || null,
@@ -170,43 +171,19 @@ export default function AddItem() {
         purchase_location: item.purchase_location.trim() || null,
         second_hand: item.second_hand,
         dog_wear: item.dog_wear,
-        times_worn: parseInt(item.times_worn) || 0,
+        waterproof: item.waterproof,
         notes: item.notes.trim() || null,
         image_urls: imageUrls.length > 0 ? imageUrls : null,
       }
 
-      // Insert the clothing item
-      const { data, error } = await supabase
-        .from('clothing_items')
-        .insert(clothingItemData)
-        .select()
+      // An initial times_worn count is recorded as wears without dates
+      const result = await createItem(user!.id, clothingItemData, parseInt(item.times_worn) || 0)
 
-      if (error) {
-        console.error('Error adding item:', error)
+      if (!result.success) {
         Alert.alert('Error', 'Failed to add item. Please try again.')
         return
       }
 
-      // If there's an initial times_worn count, add wear history entries
-      const timesWorn = parseInt(item.times_worn) || 0
-      if (timesWorn > 0 && data && data[0]) {
-        // Add wear history entries without dates (just to track count)
-        const wearHistoryEntries = Array(timesWorn).fill(null).map(() => ({
-          user_id: user!.id,
-          clothing_item_id: data[0].id,
-          date_worn: null, // No specific date for initial count
-        }))
-
-        const { error: wearError } = await supabase
-          .from('wear_history')
-          .insert(wearHistoryEntries)
-
-        if (wearError) {
-          console.error('Error adding wear history:', wearError)
-          // Don't fail the whole operation for this
-        }
-      }
-
       // Add new values to suggestions cache for better UX
       if (item.brand.trim()) {
         addToSuggestionsCache('brand', item.brand.trim())
@@ -249,6 +226,7 @@ export default function AddItem() {
               purchase_location: '',
               second_hand: false,
               dog_wear: false,
+              waterproof: false,
               times_worn: '0',
               notes: '',
               images: [],
@@ -418,6 +396,16 @@ export default function AddItem() {
           />
         </View>
 
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Waterproof (keeps the rain out)</Text>
+          <Switch
+            value={item.waterproof}
+            onValueChange={(value) => setItem({ ...item, waterproof: value })}
+            trackColor={{ false: Colors.border, true: Colors.primary }}
+            thumbColor={Colors.white}
+          />
+        </View>
+
         <View style={styles.inputRow}>
           <Text style={styles.inputLabel}>Times Already Worn</Text>
           <TextInput
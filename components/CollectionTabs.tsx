@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius } from '../constants'
+import { useAuth } from '../contexts/AuthContext'
+import { confirmAction } from '../utils/confirm'
+import { SmartCollection, fetchCollections, saveCollection, deleteCollection } from '../utils/collections'
+import { ItemFilters, countActiveFilters, emptyFilters } from '../utils/itemFilters'
+
+type CollectionDefinition = Pick<SmartCollection, 'query' | 'filters' | 'sort'>
+
+interface CollectionTabsProps {
+  current: CollectionDefinition
+  onSelect: (definition: CollectionDefinition) => void
+}
+
+const isSameDefinition = (a: CollectionDefinition, b: CollectionDefinition) =>
+  a.query.trim() === b.query.trim() &&
+  a.sort === b.sort &&
+  (Object.keys(emptyFilters) as (keyof ItemFilters)[]).every(key => a.filters[key] === b.filters[key])
+
+export default function CollectionTabs({ current, onSelect }: CollectionTabsProps) {
+  const { user } = useAuth()
+  const [collections, setCollections] = useState<SmartCollection[]>([])
+  const [showSave, setShowSave] = useState(false)
+  const [name, setName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Without collections only All items is shown, so a failure is only logged
+  const loadCollections = async () => {
+    const result = await fetchCollections()
+    if (result.success) {
+      setCollections(result.data)
+    }
+  }
+
+  useEffect(() => {
+    if (user) {
+      loadCollections()
+    }
+  }, [user])
+
+  const activeCollection = collections.find(collection => isSameDefinition(collection, current))
+  const isAllItems = !current.query.trim() && countActiveFilters(current.filters) === 0
+
+  const handleSelectAll = () => {
+    onSelect({ query: '', filters: emptyFilters, sort: current.sort })
+  }
+
+  const handleSave = async () => {
+    if (!user || !name.trim()) return
+
+    setIsSaving(true)
+    try {
+      const result = await saveCollection(user.id, { name, ...current })
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to save collection. Please try again.')
+        return
+      }
+
+      await loadCollections()
+      setShowSave(false)
+      setName('')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (collection: SmartCollection) => {
+    const confirmed = await confirmAction(
+      'Delete Collection',
+      `Delete "${collection.name}"? The items in it are not affected.`
+    )
+    if (!confirmed) return
+
+    const result = await deleteCollection(collection.id)
+    if (!result.success) {
+      Alert.alert('Error', 'Failed to delete collection. Please try again.')
+      return
+    }
+
+    setCollections(prev => prev.filter(c => c.id !== collection.id))
+  }
+
+  return (
+    <>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tabRow}>
+        <TouchableOpacity style={[styles.tab, isAllItems && styles.tabActive]} onPress={handleSelectAll}>
+          <Text style={[styles.tabText, isAllItems && styles.tabTextActive]}>All items</Text>
+        </TouchableOpacity>
+
+        {collections.map(collection => {
+          const isActive = activeCollection?.id === collection.id
+          return (
+            <TouchableOpacity
+              key={collection.id}
+              style={[styles.tab, isActive && styles.tabActive]}
+              onPress={() => onSelect(collection)}
+              onLongPress={() => handleDelete(collection)}
+            >
+              <Text style={[styles.tabText, isActive && styles.tabTextActive]}>✨ {collection.name}</Text>
+            </TouchableOpacity>
+          )
+        })}
+
+        {!isAllItems && !activeCollection && (
+          <TouchableOpacity style={[styles.tab, styles.saveTab]} onPress={() => setShowSave(true)}>
+            <Text style={styles.saveTabText}>＋ Save as collection</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      <Modal visible={showSave} transparent animationType="fade" onRequestClose={() => setShowSave(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.dialog}>
+            <Text style={styles.dialogTitle}>Save Smart Collection</Text>
+            <Text style={styles.dialogText}>
+              The collection keeps the current search, filters and sort, and updates as your items change.
+              Long-press a collection to delete it.
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Dog-walk winter layers"
+              placeholderTextColor={Colors.textTertiary}
+              autoFocus
+              maxLength={255}
+            />
+            <View style={styles.dialogButtons}>
+              <TouchableOpacity style={styles.dialogButton} onPress={() => setShowSave(false)} disabled={isSaving}>
+                <Text style={styles.dialogCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.dialogButton, styles.dialogSaveButton, (!name.trim() || isSaving) && styles.disabled]}
+                onPress={handleSave}
+                disabled={!name.trim() || isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator size="small" color={Colors.textInverse} />
+                ) : (
+                  <Text style={styles.dialogSaveText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  )
+}
+
+const styles = StyleSheet.create({
+  tabRow: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+    alignItems: 'center',
+  },
+
+  tab: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    marginRight: Spacing.sm,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+
+  tabActive: {
+    borderBottomColor: Colors.primary,
+  },
+
+  tabText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  tabTextActive: {
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+
+  saveTab: {
+    borderBottomWidth: 0,
+  },
+
+  saveTabText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: Spacing.lg,
+  },
+
+  dialog: {
+    backgroundColor: Colors.background,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+  },
+
+  dialogTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.sm,
+  },
+
+  dialogText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+    lineHeight: 20,
+  },
+
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: Spacing.md,
+  },
+
+  dialogButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+
+  dialogButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    marginLeft: Spacing.sm,
+    minWidth: 70,
+    alignItems: 'center',
+  },
+
+  dialogSaveButton: {
+    backgroundColor: Colors.primary,
+  },
+
+  disabled: {
+    opacity: 0.5,
+  },
+
+  dialogCancelText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+  },
+
+  dialogSaveText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+})
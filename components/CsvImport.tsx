@@ -0,0 +1,391 @@
+import React, { useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius } from '../constants'
+import { useAuth } from '../contexts/AuthContext'
+import { ImportRow, parseImportCsv, importItems } from '../utils/import'
+import { pickTextFile } from '../utils/files'
+
+interface CsvImportProps {
+  onClose: () => void
+  onImported: (importedCount: number) => void
+}
+
+const exampleCsv = 'name,category,brand,color,purchase_date,purchase_price,second_hand,dog_wear,times_worn'
+
+export default function CsvImport({ onClose, onImported }: CsvImportProps) {
+  const { user } = useAuth()
+  const [csvText, setCsvText] = useState('')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [rows, setRows] = useState<ImportRow[] | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importedCount, setImportedCount] = useState(0)
+
+  const validCount = rows ? rows.filter(row => row.data).length : 0
+  const errorCount = rows ? rows.length - validCount : 0
+
+  const handlePickFile = async () => {
+    try {
+      const file = await pickTextFile(['text/csv', 'text/comma-separated-values', 'text/plain'])
+      if (!file) return
+
+      setFileName(file.name)
+      setCsvText(file.content)
+      handlePreview(file.content)
+    } catch (error) {
+      console.error('Error reading CSV file:', error)
+      Alert.alert('Error', 'Failed to read the file. Please try again.')
+    }
+  }
+
+  const handlePreview = (text: string) => {
+    const result = parseImportCsv(text)
+    if (result.error) {
+      Alert.alert('Invalid CSV', result.error)
+      setRows(null)
+      return
+    }
+
+    setRows(result.rows)
+  }
+
+  const handleImport = async () => {
+    if (!user || !rows || validCount === 0) return
+
+    setIsImporting(true)
+    setImportedCount(0)
+    try {
+      let imported = 0
+      const result = await importItems(user.id, rows, count => {
+        imported = count
+        setImportedCount(count)
+      })
+
+      if (!result.success) {
+        Alert.alert(
+          'Import Incomplete',
+          `Imported ${imported} items before an error occurred. ${validCount - imported} items were not imported.`
+        )
+        if (imported > 0) {
+          onImported(imported)
+        }
+        return
+      }
+
+      Alert.alert('Import Complete', `Imported ${result.data} items.`)
+      onImported(result.data)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const renderRow = ({ item: row }: { item: ImportRow }) => (
+    <View style={[styles.rowCard, row.errors.length > 0 && styles.rowCardError]}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.rowNumber}>Row {row.rowNumber}</Text>
+        <Text style={styles.rowName} numberOfLines={1}>{row.name}</Text>
+        <Text style={styles.rowCategory}>{row.category}</Text>
+      </View>
+      {row.errors.map((error, index) => (
+        <Text key={index} style={styles.rowError}>• {error}</Text>
+      ))}
+    </View>
+  )
+
+  return (
+    <Modal
+      visible={true}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isImporting}>
+            <Text style={styles.closeButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Import from CSV</Text>
+          <TouchableOpacity
+            onPress={handleImport}
+            style={[styles.importButton, (validCount === 0 || isImporting) && styles.importButtonDisabled]}
+            disabled={validCount === 0 || isImporting}
+          >
+            {isImporting ? (
+              <ActivityIndicator size="small" color={Colors.textInverse} />
+            ) : (
+              <Text style={styles.importButtonText}>Import {validCount > 0 ? validCount : ''}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {rows === null ? (
+          // Source selection
+          <View style={styles.content}>
+            <Text style={styles.helpText}>
+              The first row must name the columns. Required: name and category. Optional: subcategory,
+              brand, color, pattern, material, purchase_date (YYYY-MM-DD), purchase_price, purchase_location,
+              second_hand, dog_wear (yes/no), times_worn and notes.
+            </Text>
+            <Text style={styles.exampleText}>{exampleCsv}</Text>
+
+            <TouchableOpacity style={styles.pickButton} onPress={handlePickFile}>
+              <Text style={styles.pickButtonText}>📄 Choose CSV File</Text>
+            </TouchableOpacity>
+
+            <Text style={styles.orText}>or paste the contents</Text>
+            <TextInput
+              style={styles.csvInput}
+              value={csvText}
+              onChangeText={setCsvText}
+              placeholder={exampleCsv}
+              placeholderTextColor={Colors.textTertiary}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={[styles.previewButton, !csvText.trim() && styles.importButtonDisabled]}
+              onPress={() => handlePreview(csvText)}
+              disabled={!csvText.trim()}
+            >
+              <Text style={styles.previewButtonText}>Preview</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          // Preview
+          <View style={styles.previewContainer}>
+            <View style={styles.summary}>
+              <Text style={styles.summaryText}>
+                {fileName ? `${fileName}: ` : ''}{validCount} ready to import
+                {errorCount > 0 ? `, ${errorCount} with errors will be skipped` : ''}
+              </Text>
+              {isImporting && (
+                <Text style={styles.progressText}>Imported {importedCount} of {validCount}...</Text>
+              )}
+              {!isImporting && (
+                <TouchableOpacity onPress={() => setRows(null)}>
+                  <Text style={styles.changeSourceText}>Choose another file</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <FlatList
+              data={rows}
+              renderItem={renderRow}
+              keyExtractor={row => String(row.rowNumber)}
+              contentContainerStyle={styles.listContainer}
+              showsVerticalScrollIndicator={false}
+              ListEmptyComponent={<Text style={styles.helpText}>No rows found below the header</Text>}
+            />
+          </View>
+        )}
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    backgroundColor: Colors.backgroundSecondary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+
+  closeButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+
+  closeButtonText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  headerTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+
+  importButton: {
+    backgroundColor: Colors.success,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    minWidth: 60,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  importButtonDisabled: {
+    opacity: 0.5,
+  },
+
+  importButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  content: {
+    padding: Spacing.lg,
+  },
+
+  helpText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: Spacing.sm,
+  },
+
+  exampleText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textTertiary,
+    fontFamily: 'monospace',
+    marginBottom: Spacing.lg,
+  },
+
+  pickButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+  },
+
+  pickButtonText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  orText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+    textAlign: 'center',
+    marginVertical: Spacing.md,
+  },
+
+  csvInput: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    minHeight: 160,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+    marginBottom: Spacing.md,
+  },
+
+  previewButton: {
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+  },
+
+  previewButtonText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.primary,
+  },
+
+  previewContainer: {
+    flex: 1,
+  },
+
+  summary: {
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+
+  summaryText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.medium,
+    marginBottom: Spacing.xs,
+  },
+
+  progressText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+  },
+
+  changeSourceText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  listContainer: {
+    padding: Spacing.lg,
+  },
+
+  rowCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  rowCardError: {
+    borderColor: Colors.error,
+  },
+
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  rowNumber: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textTertiary,
+    width: 56,
+  },
+
+  rowName: {
+    flex: 1,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  rowCategory: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginLeft: Spacing.sm,
+  },
+
+  rowError: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    marginTop: Spacing.xs,
+  },
+})
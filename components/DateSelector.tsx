@@ -0,0 +1,132 @@
+import React from 'react'
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius } from '../constants'
+import { addDays, getTodayString, formatRelativeDate } from '../utils/dates'
+
+interface DateSelectorProps {
+  value: string
+  onChange: (date: string) => void
+  label?: string
+  maxDate?: string
+  compact?: boolean
+}
+
+export default function DateSelector({
+  value,
+  onChange,
+  label,
+  maxDate = getTodayString(),
+  compact = false,
+}: DateSelectorProps) {
+  const canGoForward = value < maxDate
+  const isMaxDate = value === maxDate
+
+  return (
+    <View style={styles.container}>
+      {label && <Text style={styles.label}>{label}</Text>}
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.stepButton, compact && styles.stepButtonCompact]}
+          onPress={() => onChange(addDays(value, -1))}
+        >
+          <Text style={styles.stepButtonText}>‹</Text>
+        </TouchableOpacity>
+
+        <View style={styles.dateDisplay}>
+          <Text style={[styles.dateText, compact && styles.dateTextCompact]}>
+            {formatRelativeDate(value)}
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.stepButton, compact && styles.stepButtonCompact, !canGoForward && styles.stepButtonDisabled]}
+          onPress={() => canGoForward && onChange(addDays(value, 1))}
+          disabled={!canGoForward}
+        >
+          <Text style={styles.stepButtonText}>›</Text>
+        </TouchableOpacity>
+
+        {!isMaxDate && (
+          <TouchableOpacity style={styles.resetButton} onPress={() => onChange(maxDate)}>
+            <Text style={styles.resetButtonText}>Today</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.sm,
+  },
+
+  label: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.xs,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  stepButtonCompact: {
+    width: 28,
+    height: 28,
+  },
+
+  stepButtonDisabled: {
+    opacity: 0.4,
+  },
+
+  stepButtonText: {
+    fontSize: Typography.fontSize.lg,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.bold,
+  },
+
+  dateDisplay: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: Spacing.sm,
+  },
+
+  dateText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+
+  dateTextCompact: {
+    fontSize: Typography.fontSize.sm,
+  },
+
+  resetButton: {
+    marginLeft: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+
+  resetButtonText: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+})
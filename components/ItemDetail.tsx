@@ -12,41 +12,51 @@ import {
   TextInput,
   ActivityIndicator
 } from 'react-native'
+import { router } from 'expo-router'
 import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
-import { supabase } from '../lib/supabase'
+import { ClothingItem, ItemStatus, deleteItem, recordWears, saveItemChanges } from '../lib/wardrobe'
 import { useAuth } from '../contexts/AuthContext'
 import { formatSEK } from '../utils/currency'
 import ClothingImagePicker from './ImagePicker'
-import { uploadMultipleImages } from '../utils/imageUpload'
+import { uploadMultipleImages, deleteImagesByUrl } from '../utils/imageUpload'
 import SearchableDropdown from './SearchableDropdown'
-import { getSuggestions, addToSuggestionsCache, SuggestionsData } from '../utils/suggestions'
-
-interface ClothingItem {
-  id: string
-  name: string
-  category: string
-  subcategory?: string
-  brand?: string
-  color?: string
-  pattern?: string
-  material?: string
-  purchase_date?: string
-  purchase_price?: number
-  purchase_location?: string
-  second_hand: boolean
-  dog_wear: boolean
-  times_worn: number
-  last_worn_date?: string
-  image_urls?: string[]
-  notes?: string
-  created_at: string
-  updated_at: string
+import { getSuggestions, addToSuggestionsCache, clearSuggestionsCache, SuggestionsData } from '../utils/suggestions'
+import { confirmAction } from '../utils/confirm'
+import WearHistory from './WearHistory'
+import MaintenanceLog from './MaintenanceLog'
+import ItemOutfits from './ItemOutfits'
+import DateSelector from './DateSelector'
+import { getTodayString } from '../utils/dates'
+import { getCostPerWear, getTotalCostOfOwnership } from '../utils/itemFilters'
+import { warmthOptions } from '../utils/outfitSuggestions'
+
+const laundryDisplayNames = {
+  'clean': 'Clean',
+  'needs_wash': 'Needs washing',
+  'in_wash': 'In the wash',
 }
 
+const statusOptions: { key: ItemStatus; label: string }[] = [
+  { key: 'active', label: 'Active' },
+  { key: 'retired', label: 'Retired' },
+  { key: 'sold', label: 'Sold' },
+  { key: 'donated', label: 'Donated' },
+  { key: 'lost', label: 'Lost' },
+]
+
+const washTemperatureOptions = [30, 40, 60, 90]
+
+// Yes/No care symbols; tapping the selected answer again clears it
+const careToggles: { key: 'care_tumble_dry' | 'care_dry_clean_only' | 'care_iron'; label: string }[] = [
+  { key: 'care_tumble_dry', label: 'Tumble Dry' },
+  { key: 'care_dry_clean_only', label: 'Dry Clean Only' },
+  { key: 'care_iron', label: 'Iron' },
+]
+
 interface ItemDetailProps {
   item: ClothingItem
   onClose: () => void
-  onItemUpdated: (updatedItem: ClothingItem) => void
+  onItemDeleted: (itemId: string) => void
 }
 
 const categoryDisplayNames = {
@@ -63,12 +73,14 @@ const categoryDisplayNames = {
 
 const { width: screenWidth } = Dimensions.get('window')
 
-export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailProps) {
+export default function ItemDetail({ item, onClose, onItemDeleted }: ItemDetailProps) {
   const { user } = useAuth()
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
   const [isLoading, setIsLoading] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [wearDate, setWearDate] = useState(getTodayString())
   const [suggestions, setSuggestions] = useState<SuggestionsData>({ brands: [], subcategories: [] })
   
   // Edit form state
@@ -79,9 +91,20 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
     color: item.color || '',
     pattern: item.pattern || '',
     material: item.material || '',
+    care_wash_temperature: item.care_wash_temperature,
+    care_tumble_dry: item.care_tumble_dry,
+    care_dry_clean_only: item.care_dry_clean_only,
+    care_iron: item.care_iron,
+    warmth: item.warmth,
+    waterproof: item.waterproof,
     purchase_location: item.purchase_location || '',
     notes: item.notes || '',
-    image_urls: item.image_urls || []
+    wears_before_wash: String(item.wears_before_wash),
+    image_urls: item.image_urls || [],
+    status: item.status,
+    status_date: item.status_date || getTodayString(),
+    sale_price: item.sale_price !== null ? String(item.sale_price) : '',
+    status_reason: item.status_reason || ''
   })
   
   // Load suggestions when entering edit mode
@@ -94,49 +117,44 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
   const loadSuggestions = async () => {
     if (!user) return
     
-    try {
-      const suggestionsData = await getSuggestions(user.id)
-      setSuggestions(suggestionsData)
-    } catch (error) {
-      console.error('Error loading suggestions:', error)
+    // Without suggestions the fields are plain text inputs, so a failure is only logged
+    const result = await getSuggestions()
+    if (result.success) {
+      setSuggestions(result.data)
     }
   }
 
   const categoryName = categoryDisplayNames[item.category as keyof typeof categoryDisplayNames] || item.category
-  const costPerWear = item.purchase_price && item.times_worn > 0 
-    ? item.purchase_price / item.times_worn 
-    : null
+  // Care and repair costs are added to the purchase price and resale income is taken off
+  const totalCostOfOwnership = getTotalCostOfOwnership(item)
+  const costPerWear = getCostPerWear(item)
+  const statusLabel = statusOptions.find(option => option.key === item.status)?.label || item.status
+  const hasCareInstructions = item.care_wash_temperature !== null || item.care_tumble_dry !== null ||
+    item.care_dry_clean_only === true || item.care_iron !== null
+  const itemWarmth = warmthOptions.find(option => option.key === item.warmth)
 
   const handleAddWear = async () => {
     if (!user) return
     
     setIsLoading(true)
     try {
-      // Add a wear history entry
-      const { error } = await supabase
-        .from('wear_history')
-        .insert({
-          user_id: user.id,
-          clothing_item_id: item.id,
-          date_worn: new Date().toISOString().split('T')[0] // Today's date
-        })
+      // Add a wear history entry (queued locally when offline); the item and its history update everywhere
+      const result = await recordWears(user.id, [{
+        clothing_item_id: item.id,
+        date_worn: wearDate
+      }])
 
-      if (error) {
-        console.error('Error adding wear:', error)
+      if (!result.success) {
         Alert.alert('Error', 'Failed to add wear. Please try again.')
         return
       }
 
-      // Update the local item
-      const updatedItem = {
-        ...item,
-        times_worn: item.times_worn + 1,
-        last_worn_date: new Date().toISOString().split('T')[0]
+      if (result.queued) {
+        Alert.alert('Saved Offline', 'Wear saved on this device and will sync when you are back online.')
+      } else {
+        Alert.alert('Success', 'Wear added successfully!')
       }
       
-      onItemUpdated(updatedItem)
-      Alert.alert('Success', 'Wear added successfully!')
-      
     } catch (error) {
       console.error('Error adding wear:', error)
       Alert.alert('Error', 'Failed to add wear. Please try again.')
@@ -153,6 +171,17 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
       Alert.alert('Error', 'Item name is required')
       return
     }
+
+    const wearsBeforeWash = Number(editedItem.wears_before_wash)
+    if (!Number.isInteger(wearsBeforeWash) || wearsBeforeWash < 1) {
+      Alert.alert('Error', 'Wears before wash must be a whole number of at least 1')
+      return
+    }
+
+    if (editedItem.status === 'sold' && editedItem.sale_price.trim() && !(parseSalePrice(editedItem.sale_price) >= 0)) {
+      Alert.alert('Error', 'Sale price must be a number')
+      return
+    }
     
     setIsSaving(true)
     try {
@@ -200,7 +229,10 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
     }
   }
   
+  const parseSalePrice = (value: string) => Number(value.trim().replace(',', '.'))
+
   const proceedWithSave = async (imageUrls: string[]) => {
+    const isActive = editedItem.status === 'active'
     const updateData = {
       name: editedItem.name.trim(),
       brand: editedItem.brand.trim() || null,
@@ -208,55 +240,103 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
       color: editedItem.color.trim() || null,
       pattern: editedItem.pattern.trim() || null,
       material: editedItem.material.trim() || null,
+      care_wash_temperature: editedItem.care_wash_temperature,
+      care_tumble_dry: editedItem.care_tumble_dry,
+      care_dry_clean_only: editedItem.care_dry_clean_only,
+      care_iron: editedItem.care_iron,
+      warmth: editedItem.warmth,
+      waterproof: editedItem.waterproof,
       purchase_location: editedItem.purchase_location.trim() || null,
       notes: editedItem.notes.trim() || null,
+      wears_before_wash: Number(editedItem.wears_before_wash),
       image_urls: imageUrls.length > 0 ? imageUrls : null,
+      status: editedItem.status,
+      status_date: isActive ? null : editedItem.status_date,
+      sale_price: editedItem.status === 'sold' && editedItem.sale_price.trim()
+        ? parseSalePrice(editedItem.sale_price)
+        : null,
+      status_reason: isActive ? null : editedItem.status_reason.trim() || null,
     }
     
-    const { data, error } = await supabase
-      .from('clothing_items')
-      .update(updateData)
-      .eq('id', item.id)
-      .select()
+    // Queued locally when offline; the shared item cache is updated either way
+    const result = await saveItemChanges(item.id, updateData)
     
-    if (error) {
-      console.error('Error updating item:', error)
+    if (!result.success) {
       Alert.alert('Error', 'Failed to save changes. Please try again.')
       return
     }
     
-    if (data && data[0]) {
-      // Add new values to suggestions cache for better UX
-      if (editedItem.brand.trim()) {
-        addToSuggestionsCache('brand', editedItem.brand.trim())
-      }
-      if (editedItem.subcategory.trim()) {
-        addToSuggestionsCache('subcategory', editedItem.subcategory.trim())
+    // Add new values to suggestions cache for better UX
+    if (editedItem.brand.trim()) {
+      addToSuggestionsCache('brand', editedItem.brand.trim())
+    }
+    if (editedItem.subcategory.trim()) {
+      addToSuggestionsCache('subcategory', editedItem.subcategory.trim())
+    }
+    
+    // Update local suggestions state
+    setSuggestions(prev => {
+      const newBrands = editedItem.brand.trim() && !prev.brands.includes(editedItem.brand.trim())
+        ? [...prev.brands, editedItem.brand.trim()].sort()
+        : prev.brands
+        
+      const newSubcategories = editedItem.subcategory.trim() && !prev.subcategories.includes(editedItem.subcategory.trim())
+        ? [...prev.subcategories, editedItem.subcategory.trim()].sort()
+        : prev.subcategories
+        
+      return {
+        brands: newBrands,
+        subcategories: newSubcategories
       }
-      
-      // Update local suggestions state
-      setSuggestions(prev => {
-        const newBrands = editedItem.brand.trim() && !prev.brands.includes(editedItem.brand.trim())
-          ? [...prev.brands, editedItem.brand.trim()].sort()
-          : prev.brands
-          
-        const newSubcategories = editedItem.subcategory.trim() && !prev.subcategories.includes(editedItem.subcategory.trim())
-          ? [...prev.subcategories, editedItem.subcategory.trim()].sort()
-          : prev.subcategories
-          
-        return {
-          brands: newBrands,
-          subcategories: newSubcategories
-        }
-      })
-      
-      const updatedItem = { ...item, ...data[0] }
-      onItemUpdated(updatedItem)
-      setIsEditing(false)
+    })
+    
+    setIsEditing(false)
+    if (result.queued) {
+      Alert.alert('Saved Offline', 'Changes saved on this device and will sync when you are back online.')
+    } else {
       Alert.alert('Success', 'Item updated successfully!')
     }
   }
   
+  const handleDelete = async () => {
+    if (!user) return
+
+    const confirmed = await confirmAction(
+      'Delete Item',
+      `Delete "${item.name}"? Its wear history and photos will be removed permanently.`
+    )
+    if (!confirmed) return
+
+    setIsDeleting(true)
+    try {
+      // Wear history is removed by the ON DELETE CASCADE on wear_history
+      const result = await deleteItem(item.id)
+
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to delete item. Please try again.')
+        return
+      }
+
+      // deleteItem only succeeds once the row is gone, so a failed delete keeps its photos
+      if (item.image_urls && item.image_urls.length > 0) {
+        const failedDeletes = await deleteImagesByUrl(item.image_urls)
+        if (failedDeletes > 0) {
+          console.error(`Failed to delete ${failedDeletes} image(s) for item ${item.id}`)
+        }
+      }
+
+      // Brands and subcategories may no longer be in use
+      clearSuggestionsCache()
+
+      onItemDeleted(item.id)
+    } catch (error) {
+      console.error('Error deleting item:', error)
+      Alert.alert('Error', 'Failed to delete item. Please try again.')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
   const handleCancelEdit = () => {
     // Reset form to original values
     setEditedItem({
@@ -266,14 +346,25 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
       color: item.color || '',
       pattern: item.pattern || '',
       material: item.material || '',
+      care_wash_temperature: item.care_wash_temperature,
+      care_tumble_dry: item.care_tumble_dry,
+      care_dry_clean_only: item.care_dry_clean_only,
+      care_iron: item.care_iron,
+      warmth: item.warmth,
+      waterproof: item.waterproof,
       purchase_location: item.purchase_location || '',
       notes: item.notes || '',
-      image_urls: item.image_urls || []
+      wears_before_wash: String(item.wears_before_wash),
+      image_urls: item.image_urls || [],
+      status: item.status,
+      status_date: item.status_date || getTodayString(),
+      sale_price: item.sale_price !== null ? String(item.sale_price) : '',
+      status_reason: item.status_reason || ''
     })
     setIsEditing(false)
   }
 
-  const formatDate = (dateString?: string) => {
+  const formatDate = (dateString?: string | null) => {
     if (!dateString) return 'Never'
     const date = new Date(dateString)
     return date.toLocaleDateString('sv-SE') // Swedish date format
@@ -460,6 +551,18 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
                   />
                 </View>
                 
+                <View style={styles.formGroup}>
+                  <Text style={styles.fieldLabel}>Wears Before Wash</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={editedItem.wears_before_wash}
+                    onChangeText={(text) => setEditedItem({...editedItem, wears_before_wash: text})}
+                    placeholder="1"
+                    placeholderTextColor={Colors.textTertiary}
+                    keyboardType="number-pad"
+                  />
+                </View>
+                
                 <View style={styles.formGroup}>
                   <Text style={styles.fieldLabel}>Notes</Text>
                   <TextInput
@@ -473,6 +576,153 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
                   />
                 </View>
               </View>
+
+              {/* Care Instructions */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Care</Text>
+                <Text style={styles.fieldLabel}>Wash Temperature</Text>
+                <View style={[styles.tagsRow, styles.careRow]}>
+                  <TouchableOpacity
+                    style={[styles.tag, editedItem.care_wash_temperature === null && styles.tagSelected]}
+                    onPress={() => setEditedItem({...editedItem, care_wash_temperature: null})}
+                  >
+                    <Text style={[styles.tagText, editedItem.care_wash_temperature === null && styles.tagTextSelected]}>
+                      Not set
+                    </Text>
+                  </TouchableOpacity>
+                  {washTemperatureOptions.map(temperature => (
+                    <TouchableOpacity
+                      key={temperature}
+                      style={[styles.tag, editedItem.care_wash_temperature === temperature && styles.tagSelected]}
+                      onPress={() => setEditedItem({...editedItem, care_wash_temperature: temperature})}
+                    >
+                      <Text style={[styles.tagText, editedItem.care_wash_temperature === temperature && styles.tagTextSelected]}>
+                        {temperature}°
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {careToggles.map(toggle => (
+                  <View key={toggle.key}>
+                    <Text style={styles.fieldLabel}>{toggle.label}</Text>
+                    <View style={[styles.tagsRow, styles.careRow]}>
+                      {[true, false].map(answer => {
+                        const isSelected = editedItem[toggle.key] === answer
+                        return (
+                          <TouchableOpacity
+                            key={String(answer)}
+                            style={[styles.tag, isSelected && styles.tagSelected]}
+                            onPress={() => setEditedItem({...editedItem, [toggle.key]: isSelected ? null : answer})}
+                          >
+                            <Text style={[styles.tagText, isSelected && styles.tagTextSelected]}>
+                              {answer ? 'Yes' : 'No'}
+                            </Text>
+                          </TouchableOpacity>
+                        )
+                      })}
+                    </View>
+                  </View>
+                ))}
+              </View>
+
+              {/* Weather Suitability */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Weather</Text>
+                <Text style={styles.fieldLabel}>Warmth</Text>
+                <View style={[styles.tagsRow, styles.careRow]}>
+                  <TouchableOpacity
+                    style={[styles.tag, editedItem.warmth === null && styles.tagSelected]}
+                    onPress={() => setEditedItem({...editedItem, warmth: null})}
+                  >
+                    <Text style={[styles.tagText, editedItem.warmth === null && styles.tagTextSelected]}>
+                      Not set
+                    </Text>
+                  </TouchableOpacity>
+                  {warmthOptions.map(option => (
+                    <TouchableOpacity
+                      key={option.key}
+                      style={[styles.tag, editedItem.warmth === option.key && styles.tagSelected]}
+                      onPress={() => setEditedItem({...editedItem, warmth: option.key})}
+                    >
+                      <Text style={[styles.tagText, editedItem.warmth === option.key && styles.tagTextSelected]}>
+                        {option.icon} {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.fieldLabel}>Waterproof</Text>
+                <View style={[styles.tagsRow, styles.careRow]}>
+                  {[true, false].map(answer => (
+                    <TouchableOpacity
+                      key={String(answer)}
+                      style={[styles.tag, editedItem.waterproof === answer && styles.tagSelected]}
+                      onPress={() => setEditedItem({...editedItem, waterproof: answer})}
+                    >
+                      <Text style={[styles.tagText, editedItem.waterproof === answer && styles.tagTextSelected]}>
+                        {answer ? 'Yes' : 'No'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {/* Lifecycle Status */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Status</Text>
+                <View style={styles.tagsRow}>
+                  {statusOptions.map(option => (
+                    <TouchableOpacity
+                      key={option.key}
+                      style={[styles.tag, editedItem.status === option.key && styles.tagSelected]}
+                      onPress={() => setEditedItem({...editedItem, status: option.key})}
+                    >
+                      <Text style={[styles.tagText, editedItem.status === option.key && styles.tagTextSelected]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {editedItem.status !== 'active' && (
+                  <View style={styles.statusFields}>
+                    <View style={styles.formGroup}>
+                      <DateSelector
+                        value={editedItem.status_date}
+                        onChange={(date) => setEditedItem({...editedItem, status_date: date})}
+                        label="Date"
+                        compact
+                      />
+                    </View>
+
+                    {editedItem.status === 'sold' && (
+                      <View style={styles.formGroup}>
+                        <Text style={styles.fieldLabel}>Sale Price (kr)</Text>
+                        <TextInput
+                          style={styles.textInput}
+                          value={editedItem.sale_price}
+                          onChangeText={(text) => setEditedItem({...editedItem, sale_price: text})}
+                          placeholder="What you sold it for"
+                          placeholderTextColor={Colors.textTertiary}
+                          keyboardType="decimal-pad"
+                        />
+                      </View>
+                    )}
+
+                    <View style={styles.formGroup}>
+                      <Text style={styles.fieldLabel}>Reason</Text>
+                      <TextInput
+                        style={styles.textInput}
+                        value={editedItem.status_reason}
+                        onChangeText={(text) => setEditedItem({...editedItem, status_reason: text})}
+                        placeholder="e.g., worn out, no longer fits"
+                        placeholderTextColor={Colors.textTertiary}
+                      />
+                    </View>
+                  </View>
+                )}
+              </View>
             </View>
           ) : (
             // View Mode
@@ -501,6 +751,9 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
                     </Text>
                   </TouchableOpacity>
                 </View>
+                <View style={styles.wearDateRow}>
+                  <DateSelector value={wearDate} onChange={setWearDate} label="Wear date" compact />
+                </View>
               </View>
 
               {/* Stats Section */}
@@ -515,7 +768,7 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
                 <Text style={styles.statNumber}>{formatDate(item.last_worn_date)}</Text>
                 <Text style={styles.statLabel}>Last Worn</Text>
               </View>
-              {costPerWear && (
+              {costPerWear !== null && (
                 <View style={styles.statCard}>
                   <Text style={styles.statNumber}>{formatSEK(costPerWear, { showDecimals: true })}</Text>
                   <Text style={styles.statLabel}>Cost per Wear</Text>
@@ -524,6 +777,31 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
             </View>
           </View>
 
+          {/* Status Section */}
+          {item.status !== 'active' && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Status</Text>
+              <View style={styles.detailsGrid}>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>{statusLabel}</Text>
+                  <Text style={styles.detailValue}>{formatDate(item.status_date)}</Text>
+                </View>
+                {item.sale_price !== null && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Sale Price</Text>
+                    <Text style={styles.detailValue}>{formatSEK(item.sale_price)}</Text>
+                  </View>
+                )}
+                {item.status_reason && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Reason</Text>
+                    <Text style={styles.detailValue}>{item.status_reason}</Text>
+                  </View>
+                )}
+              </View>
+            </View>
+          )}
+
           {/* Details Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Details</Text>
@@ -552,12 +830,30 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
                   <Text style={styles.detailValue}>{item.material}</Text>
                 </View>
               )}
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Laundry</Text>
+                <Text style={styles.detailValue}>
+                  {laundryDisplayNames[item.laundry_state]} · worn {item.wears_since_wash} of {item.wears_before_wash} before wash
+                </Text>
+              </View>
               {item.purchase_price && (
                 <View style={styles.detailRow}>
                   <Text style={styles.detailLabel}>Purchase Price</Text>
                   <Text style={styles.detailValue}>{formatSEK(item.purchase_price)}</Text>
                 </View>
               )}
+              {item.maintenance_cost > 0 && (
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Care & Repairs</Text>
+                  <Text style={styles.detailValue}>{formatSEK(item.maintenance_cost)}</Text>
+                </View>
+              )}
+              {totalCostOfOwnership !== null && totalCostOfOwnership !== item.purchase_price && (
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Total Cost of Ownership</Text>
+                  <Text style={styles.detailValue}>{formatSEK(totalCostOfOwnership)}</Text>
+                </View>
+              )}
               {item.purchase_date && (
                 <View style={styles.detailRow}>
                   <Text style={styles.detailLabel}>Purchase Date</Text>
@@ -574,7 +870,7 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
           </View>
 
           {/* Tags Section */}
-          {(item.second_hand || item.dog_wear) && (
+          {(item.second_hand || item.dog_wear || itemWarmth || item.waterproof) && (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Tags</Text>
               <View style={styles.tagsRow}>
@@ -588,6 +884,45 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
                     <Text style={styles.tagText}>🐕 Dog Wear</Text>
                   </View>
                 )}
+                {itemWarmth && (
+                  <View style={styles.tag}>
+                    <Text style={styles.tagText}>{itemWarmth.icon} {itemWarmth.label} Warmth</Text>
+                  </View>
+                )}
+                {item.waterproof && (
+                  <View style={styles.tag}>
+                    <Text style={styles.tagText}>☔ Waterproof</Text>
+                  </View>
+                )}
+              </View>
+            </View>
+          )}
+
+          {/* Care Section */}
+          {hasCareInstructions && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Care</Text>
+              <View style={styles.tagsRow}>
+                {item.care_wash_temperature !== null && (
+                  <View style={styles.tag}>
+                    <Text style={styles.tagText}>🌡️ Wash at {item.care_wash_temperature}°</Text>
+                  </View>
+                )}
+                {item.care_tumble_dry !== null && (
+                  <View style={styles.tag}>
+                    <Text style={styles.tagText}>{item.care_tumble_dry ? 'Tumble dry' : 'Do not tumble dry'}</Text>
+                  </View>
+                )}
+                {item.care_dry_clean_only && (
+                  <View style={styles.tag}>
+                    <Text style={styles.tagText}>Dry clean only</Text>
+                  </View>
+                )}
+                {item.care_iron !== null && (
+                  <View style={styles.tag}>
+                    <Text style={styles.tagText}>{item.care_iron ? 'Iron' : 'Do not iron'}</Text>
+                  </View>
+                )}
               </View>
             </View>
           )}
@@ -599,6 +934,36 @@ export default function ItemDetail({ item, onClose, onItemUpdated }: ItemDetailP
                   <Text style={styles.notesText}>{item.notes}</Text>
                 </View>
               )}
+
+              {/* Wear History Section */}
+              <WearHistory itemId={item.id} />
+
+              {/* Repairs, alterations and cleaning */}
+              <MaintenanceLog itemId={item.id} />
+
+              {/* Saved outfits with this item; the detail modal closes before opening one */}
+              <ItemOutfits
+                itemId={item.id}
+                onOutfitPress={outfitId => {
+                  onClose()
+                  router.push({ pathname: '/outfits', params: { outfitId } })
+                }}
+              />
+
+              {/* Danger Zone */}
+              <View style={styles.section}>
+                <TouchableOpacity
+                  style={[styles.deleteButton, isDeleting && styles.deleteButtonDisabled]}
+                  onPress={handleDelete}
+                  disabled={isDeleting}
+                >
+                  {isDeleting ? (
+                    <ActivityIndicator size="small" color={Colors.error} />
+                  ) : (
+                    <Text style={styles.deleteButtonText}>Delete Item</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
             </View>
           )}
         </ScrollView>
@@ -799,6 +1164,10 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.md,
   },
   
+  wearDateRow: {
+    marginTop: Spacing.md,
+  },
+  
   addWearButtonText: {
     fontSize: Typography.fontSize.sm,
     fontWeight: Typography.fontWeight.semibold,
@@ -872,6 +1241,10 @@ const styles = StyleSheet.create({
     flexWrap: 'wrap',
     gap: Spacing.sm,
   },
+
+  careRow: {
+    marginBottom: Spacing.md,
+  },
   
   tag: {
     backgroundColor: Colors.surface,
@@ -887,9 +1260,41 @@ const styles = StyleSheet.create({
     color: Colors.textPrimary,
   },
   
+  tagSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  
+  tagTextSelected: {
+    color: Colors.textInverse,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  
+  statusFields: {
+    marginTop: Spacing.md,
+  },
+  
   notesText: {
     fontSize: Typography.fontSize.md,
     color: Colors.textPrimary,
     lineHeight: 20,
   },
+  
+  deleteButton: {
+    borderWidth: 1,
+    borderColor: Colors.error,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+  },
+  
+  deleteButtonDisabled: {
+    opacity: 0.6,
+  },
+  
+  deleteButtonText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.error,
+  },
 })
@@ -7,34 +7,29 @@ import {
   TouchableOpacity, 
   Image, 
   RefreshControl,
-  ActivityIndicator
+  ActivityIndicator,
+  ScrollView
 } from 'react-native'
 import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
-import { supabase } from '../lib/supabase'
-import { useAuth } from '../contexts/AuthContext'
 import { formatSEK } from '../utils/currency'
-
-interface ClothingItem {
-  id: string
-  name: string
-  category: string
-  subcategory?: string
-  brand?: string
-  color?: string
-  pattern?: string
-  material?: string
-  purchase_date?: string
-  purchase_price?: number
-  purchase_location?: string
-  second_hand: boolean
-  dog_wear: boolean
-  times_worn: number
-  last_worn_date?: string
-  image_urls?: string[]
-  notes?: string
-  created_at: string
-  updated_at: string
-}
+import { ClothingItem, useItems } from '../lib/wardrobe'
+import {
+  ItemFilters,
+  ItemListPreferences,
+  ItemSort,
+  applyItemFilters,
+  countActiveFilters,
+  defaultPreferences,
+  emptyFilters,
+  getFilterValues,
+  isActiveItem,
+  loadItemListPreferences,
+  saveItemListPreferences,
+  sortOptions,
+} from '../utils/itemFilters'
+import { searchItems } from '../utils/search'
+import SearchBox from './SearchBox'
+import CollectionTabs from './CollectionTabs'
 
 interface ItemListProps {
   onItemPress: (item: ClothingItem) => void
@@ -52,6 +47,14 @@ const categoryDisplayNames = {
   'activewear': 'Activewear',
 }
 
+const statusDisplayNames = {
+  'active': 'Active',
+  'retired': 'Retired',
+  'sold': 'Sold',
+  'donated': 'Donated',
+  'lost': 'Lost',
+}
+
 const categoryIcons = {
   'tops': '👕',
   'bottoms': '👖', 
@@ -65,43 +68,60 @@ const categoryIcons = {
 }
 
 export default function ItemList({ onItemPress }: ItemListProps) {
-  const { user } = useAuth()
-  const [items, setItems] = useState<ClothingItem[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  // Includes wears and edits that are still waiting to sync
+  const { data: items = [], isLoading, refetch } = useItems()
   const [refreshing, setRefreshing] = useState(false)
+  const [preferences, setPreferences] = useState<ItemListPreferences>(defaultPreferences)
+  const [openPanel, setOpenPanel] = useState<'sort' | 'brand' | 'color' | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
 
   useEffect(() => {
-    if (user) {
-      fetchItems()
-    }
-  }, [user])
-
-  const fetchItems = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('clothing_items')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (error) {
-        console.error('Error fetching items:', error)
-        return
-      }
+    loadItemListPreferences().then(setPreferences)
+  }, [])
 
-      setItems(data || [])
-    } catch (error) {
-      console.error('Error fetching items:', error)
-    } finally {
-      setIsLoading(false)
-    }
+  const updatePreferences = (next: ItemListPreferences) => {
+    setPreferences(next)
+    saveItemListPreferences(next)
+  }
+
+  const updateFilter = <K extends keyof ItemFilters>(key: K, value: ItemFilters[K]) => {
+    updatePreferences({ ...preferences, filters: { ...preferences.filters, [key]: value } })
+  }
+
+  const handleSortChange = (sort: ItemSort) => {
+    updatePreferences({ ...preferences, sort })
+    setOpenPanel(null)
+  }
+
+  const clearFilters = () => {
+    updatePreferences({ ...preferences, filters: emptyFilters })
+    setOpenPanel(null)
+  }
+
+  // Collections store the search, filters and sort together, so selecting one sets all three
+  const handleCollectionSelect = ({ query, filters, sort }: { query: string; filters: ItemFilters; sort: ItemSort }) => {
+    setSearchQuery(query)
+    updatePreferences({ filters, sort })
+    setOpenPanel(null)
+  }
+
+  const togglePanel = (panel: 'sort' | 'brand' | 'color') => {
+    setOpenPanel(current => (current === panel ? null : panel))
   }
 
   const onRefresh = async () => {
     setRefreshing(true)
-    await fetchItems()
+    await refetch()
     setRefreshing(false)
   }
 
+  const filters = preferences.filters
+  // Active and inactive items are listed separately, so the total is for the side being shown
+  const listedCount = items.filter(item => isActiveItem(item) !== filters.inactive).length
+  const visibleItems = applyItemFilters(searchItems(items, searchQuery), preferences)
+  const activeFilterCount = countActiveFilters(filters)
+  const isNarrowed = activeFilterCount > 0 || searchQuery.trim() !== ''
+
   const renderItem = ({ item }: { item: ClothingItem }) => {
     const primaryImage = item.image_urls && item.image_urls.length > 0 ? item.image_urls[0] : null
     const categoryIcon = categoryIcons[item.category as keyof typeof categoryIcons] || '👕'
@@ -126,6 +146,12 @@ export default function ItemList({ onItemPress }: ItemListProps) {
             </View>
           )}
           
+          {!isActiveItem(item) && (
+            <View style={styles.statusBadge}>
+              <Text style={styles.statusText}>{statusDisplayNames[item.status]}</Text>
+            </View>
+          )}
+
           {/* Times worn badge */}
           {item.times_worn > 0 && (
             <View style={styles.wornBadge}>
@@ -146,6 +172,97 @@ export default function ItemList({ onItemPress }: ItemListProps) {
     )
   }
 
+  const renderChip = (label: string, isActive: boolean, onPress: () => void, key?: string) => (
+    <TouchableOpacity
+      key={key || label}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  )
+
+  const renderPanel = () => {
+    if (openPanel === 'sort') {
+      return sortOptions.map(option =>
+        renderChip(option.label, preferences.sort === option.key, () => handleSortChange(option.key), option.key)
+      )
+    }
+
+    if (openPanel === 'brand' || openPanel === 'color') {
+      const field = openPanel
+      const values = getFilterValues(items, field)
+      if (values.length === 0) {
+        return <Text style={styles.panelEmptyText}>No {field === 'brand' ? 'brands' : 'colors'} added yet</Text>
+      }
+
+      return values.map(value =>
+        renderChip(value, filters[field] === value, () => {
+          updateFilter(field, filters[field] === value ? null : value)
+          setOpenPanel(null)
+        }, value)
+      )
+    }
+
+    return null
+  }
+
+  const renderControls = () => {
+    const sortLabel = sortOptions.find(option => option.key === preferences.sort)?.label
+
+    return (
+      <View style={styles.controls}>
+        <CollectionTabs
+          current={{ query: searchQuery, filters, sort: preferences.sort }}
+          onSelect={handleCollectionSelect}
+        />
+
+        <View style={styles.searchContainer}>
+          <SearchBox value={searchQuery} onChangeText={setSearchQuery} />
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {renderChip(`⇅ ${sortLabel}`, openPanel === 'sort', () => togglePanel('sort'))}
+          {renderChip(filters.brand ? `Brand: ${filters.brand}` : 'Brand ▾', !!filters.brand || openPanel === 'brand', () => togglePanel('brand'))}
+          {renderChip(filters.color ? `Color: ${filters.color}` : 'Color ▾', !!filters.color || openPanel === 'color', () => togglePanel('color'))}
+          {renderChip('Second hand', filters.secondHand, () => updateFilter('secondHand', !filters.secondHand))}
+          {renderChip('🐕 Dog wear', filters.dogWear, () => updateFilter('dogWear', !filters.dogWear))}
+          {renderChip('Never worn', filters.neverWorn, () => updateFilter('neverWorn', !filters.neverWorn))}
+          {renderChip('📦 Retired & gone', filters.inactive, () => updateFilter('inactive', !filters.inactive))}
+        </ScrollView>
+
+        {openPanel && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {renderPanel()}
+          </ScrollView>
+        )}
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {renderChip('All', !filters.category, () => updateFilter('category', null))}
+          {Object.entries(categoryDisplayNames).map(([key, name]) =>
+            renderChip(
+              `${categoryIcons[key as keyof typeof categoryIcons]} ${name}`,
+              filters.category === key,
+              () => updateFilter('category', filters.category === key ? null : key),
+              key
+            )
+          )}
+        </ScrollView>
+
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryText}>
+            {isNarrowed ? `${visibleItems.length} of ${listedCount} items` : `${listedCount} items`}
+          </Text>
+          {activeFilterCount > 0 && (
+            <TouchableOpacity onPress={clearFilters}>
+              <Text style={styles.clearText}>Clear filters</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    )
+  }
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -168,27 +285,113 @@ export default function ItemList({ onItemPress }: ItemListProps) {
   }
 
   return (
-    <FlatList
-      data={items}
-      renderItem={renderItem}
-      keyExtractor={(item) => item.id}
-      numColumns={2}
-      contentContainerStyle={styles.listContainer}
-      columnWrapperStyle={styles.row}
-      refreshControl={
-        <RefreshControl
-          refreshing={refreshing}
-          onRefresh={onRefresh}
-          tintColor={Colors.primary}
-          colors={[Colors.primary]}
-        />
-      }
-      showsVerticalScrollIndicator={false}
-    />
+    <View style={styles.container}>
+      {renderControls()}
+      <FlatList
+        data={visibleItems}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        numColumns={2}
+        contentContainerStyle={styles.listContainer}
+        columnWrapperStyle={styles.row}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={Colors.primary}
+            colors={[Colors.primary]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.noMatchesContainer}>
+            <Text style={styles.emptySubtitle}>
+              {searchQuery.trim() ? 'No items match your search' : 'No items match these filters'}
+            </Text>
+          </View>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
   )
 }
 
 const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  controls: {
+    paddingTop: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    backgroundColor: Colors.background,
+  },
+
+  searchContainer: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
+
+  chipRow: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+    alignItems: 'center',
+  },
+
+  chip: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    marginRight: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  chipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  chipTextActive: {
+    color: Colors.textInverse,
+  },
+
+  panelEmptyText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+  },
+
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
+
+  summaryText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  clearText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  noMatchesContainer: {
+    alignItems: 'center',
+    padding: Spacing.xl,
+  },
+
   listContainer: {
     padding: Spacing.md,
   },
@@ -247,6 +450,22 @@ const styles = StyleSheet.create({
     color: Colors.textInverse,
   },
   
+  statusBadge: {
+    position: 'absolute',
+    top: Spacing.xs,
+    left: Spacing.xs,
+    backgroundColor: Colors.textSecondary,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.xs,
+    paddingVertical: 2,
+  },
+  
+  statusText: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textInverse,
+  },
+  
   itemInfo: {
     padding: Spacing.md,
   },
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react'
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native'
+import { Colors, Spacing, Typography } from '../constants'
+import { Outfit, fetchItemOutfits } from '../utils/outfits'
+
+interface ItemOutfitsProps {
+  itemId: string
+  onOutfitPress: (outfitId: string) => void
+}
+
+export default function ItemOutfits({ itemId, onOutfitPress }: ItemOutfitsProps) {
+  const [outfits, setOutfits] = useState<Pick<Outfit, 'id' | 'name'>[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    // Failures are logged; the section then shows as empty
+    fetchItemOutfits(itemId).then(result => {
+      if (cancelled) return
+      setOutfits(result.success ? result.data : [])
+      setIsLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [itemId])
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>In Outfits</Text>
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} />
+      ) : outfits.length === 0 ? (
+        <Text style={styles.emptyText}>Not part of any saved outfit yet</Text>
+      ) : (
+        outfits.map(outfit => (
+          <TouchableOpacity key={outfit.id} style={styles.outfitRow} onPress={() => onOutfitPress(outfit.id)}>
+            <Text style={styles.outfitName} numberOfLines={1}>👗 {outfit.name}</Text>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+
+  sectionTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textAccent,
+    marginBottom: Spacing.md,
+  },
+
+  emptyText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+  },
+
+  outfitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+
+  outfitName: {
+    flex: 1,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  chevron: {
+    fontSize: Typography.fontSize.lg,
+    color: Colors.textTertiary,
+    marginLeft: Spacing.sm,
+  },
+})
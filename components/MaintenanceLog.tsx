@@ -0,0 +1,393 @@
+import React, { useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius } from '../constants'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  MaintenanceEvent,
+  MaintenanceType,
+  addMaintenanceEvent,
+  removeMaintenanceEvent,
+  useMaintenance,
+} from '../lib/wardrobe'
+import { confirmAction } from '../utils/confirm'
+import { formatSEK } from '../utils/currency'
+import { formatDisplayDate, getTodayString } from '../utils/dates'
+import DateSelector from './DateSelector'
+
+interface MaintenanceLogProps {
+  itemId: string
+}
+
+const maintenanceTypes: { key: MaintenanceType; label: string; icon: string }[] = [
+  { key: 'repair', label: 'Repair', icon: '🧵' },
+  { key: 'alteration', label: 'Alteration', icon: '✂️' },
+  { key: 'resole', label: 'Re-soling', icon: '👞' },
+  { key: 'dry_cleaning', label: 'Dry cleaning', icon: '🧼' },
+  { key: 'other', label: 'Other', icon: '🔧' },
+]
+
+export default function MaintenanceLog({ itemId }: MaintenanceLogProps) {
+  const { user } = useAuth()
+  const { data: events = [], isLoading } = useMaintenance(itemId)
+  const [isAdding, setIsAdding] = useState(false)
+  const [eventType, setEventType] = useState<MaintenanceType>('repair')
+  const [eventDate, setEventDate] = useState(getTodayString())
+  const [cost, setCost] = useState('')
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const totalCost = events.reduce((sum, event) => sum + (event.cost || 0), 0)
+
+  const resetForm = () => {
+    setIsAdding(false)
+    setEventType('repair')
+    setEventDate(getTodayString())
+    setCost('')
+    setNotes('')
+  }
+
+  const handleAdd = async () => {
+    if (!user) return
+
+    const costValue = cost.trim() ? Number(cost.trim().replace(',', '.')) : null
+    if (costValue !== null && !(costValue >= 0)) {
+      Alert.alert('Error', 'Cost must be a number')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const result = await addMaintenanceEvent(user.id, {
+        clothing_item_id: itemId,
+        event_type: eventType,
+        event_date: eventDate,
+        cost: costValue,
+        notes: notes.trim() || null,
+      })
+
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to save the maintenance. Please try again.')
+        return
+      }
+
+      resetForm()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (event: MaintenanceEvent) => {
+    const label = maintenanceTypes.find(type => type.key === event.event_type)?.label || event.event_type
+    const confirmed = await confirmAction(
+      'Remove Maintenance',
+      `Remove the ${label.toLowerCase()} from ${formatDisplayDate(event.event_date)}?`,
+      'Remove'
+    )
+    if (!confirmed) return
+
+    setBusyId(event.id)
+    try {
+      const result = await removeMaintenanceEvent(event.id)
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to remove the maintenance. Please try again.')
+      }
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const renderEvent = (event: MaintenanceEvent) => {
+    const type = maintenanceTypes.find(option => option.key === event.event_type)
+    const isBusy = busyId === event.id
+
+    return (
+      <View key={event.id} style={styles.eventRow}>
+        <Text style={styles.eventIcon}>{type?.icon || '🔧'}</Text>
+        <View style={styles.eventInfo}>
+          <Text style={styles.eventTitle}>
+            {type?.label || event.event_type} · {formatDisplayDate(event.event_date)}
+          </Text>
+          {event.notes && <Text style={styles.eventNotes}>{event.notes}</Text>}
+        </View>
+        {event.cost !== null && <Text style={styles.eventCost}>{formatSEK(event.cost)}</Text>}
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(event)} disabled={isBusy}>
+          {isBusy ? (
+            <ActivityIndicator size="small" color={Colors.error} />
+          ) : (
+            <Text style={styles.deleteText}>✕</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    )
+  }
+
+  const renderForm = () => (
+    <View style={styles.form}>
+      <View style={styles.typeRow}>
+        {maintenanceTypes.map(type => (
+          <TouchableOpacity
+            key={type.key}
+            style={[styles.typeChip, eventType === type.key && styles.typeChipSelected]}
+            onPress={() => setEventType(type.key)}
+          >
+            <Text style={[styles.typeChipText, eventType === type.key && styles.typeChipTextSelected]}>
+              {type.icon} {type.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <DateSelector value={eventDate} onChange={setEventDate} label="Date" compact />
+      <Text style={styles.fieldLabel}>Cost (kr)</Text>
+      <TextInput
+        style={styles.textInput}
+        value={cost}
+        onChangeText={setCost}
+        placeholder="Optional"
+        placeholderTextColor={Colors.textTertiary}
+        keyboardType="decimal-pad"
+      />
+      <Text style={styles.fieldLabel}>Note</Text>
+      <TextInput
+        style={styles.textInput}
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="e.g., new zipper, taken in at the waist"
+        placeholderTextColor={Colors.textTertiary}
+      />
+      <View style={styles.formActions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={resetForm}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+          onPress={handleAdd}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color={Colors.textInverse} />
+          ) : (
+            <Text style={styles.primaryButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  )
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.sectionTitle}>Maintenance</Text>
+        {!isAdding && (
+          <TouchableOpacity onPress={() => setIsAdding(true)}>
+            <Text style={styles.addText}>+ Add</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {isAdding && renderForm()}
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} />
+      ) : events.length === 0 ? (
+        !isAdding && <Text style={styles.emptyText}>No repairs, alterations or cleaning logged yet</Text>
+      ) : (
+        <>
+          {events.map(renderEvent)}
+          {totalCost > 0 && (
+            <Text style={styles.totalText}>Total spent on care: {formatSEK(totalCost)}</Text>
+          )}
+        </>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+
+  sectionTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textAccent,
+    marginBottom: Spacing.md,
+  },
+
+  addText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.primary,
+  },
+
+  emptyText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+  },
+
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+
+  eventIcon: {
+    fontSize: Typography.fontSize.lg,
+    marginRight: Spacing.md,
+  },
+
+  eventInfo: {
+    flex: 1,
+  },
+
+  eventTitle: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  eventNotes: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  eventCost: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.semibold,
+    marginLeft: Spacing.sm,
+  },
+
+  actionButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    marginLeft: Spacing.xs,
+    minWidth: 32,
+    alignItems: 'center',
+  },
+
+  deleteText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.error,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  totalText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    textAlign: 'right',
+    marginTop: Spacing.sm,
+  },
+
+  form: {
+    marginBottom: Spacing.md,
+  },
+
+  typeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+
+  typeChip: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  typeChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  typeChipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
+
+  typeChipTextSelected: {
+    color: Colors.textInverse,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+
+  fieldLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+
+  textInput: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+
+  primaryButton: {
+    backgroundColor: Colors.success,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+
+  primaryButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  secondaryButton: {
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+  },
+
+  secondaryButtonText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+})
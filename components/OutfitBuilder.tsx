@@ -0,0 +1,453 @@
+import React, { useState, useMemo } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  TextInput,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
+import { ClothingItem, useItems } from '../lib/wardrobe'
+import { useAuth } from '../contexts/AuthContext'
+import { Outfit, saveOutfit } from '../utils/outfits'
+
+interface OutfitBuilderProps {
+  outfit?: Outfit
+  onClose: () => void
+  onSaved: () => void
+}
+
+const categoryDisplayNames = {
+  'tops': 'Tops',
+  'bottoms': 'Bottoms',
+  'dresses_jumpsuits': 'Dresses & Jumpsuits',
+  'shoes': 'Shoes',
+  'accessories': 'Accessories',
+  'outerwear': 'Outerwear',
+  'underwear': 'Underwear',
+  'sleepwear': 'Sleepwear',
+  'activewear': 'Activewear',
+}
+
+const categoryIcons = {
+  'tops': '👕',
+  'bottoms': '👖',
+  'dresses_jumpsuits': '👗',
+  'shoes': '👟',
+  'accessories': '👒',
+  'outerwear': '🧥',
+  'underwear': '🩲',
+  'sleepwear': '🩱',
+  'activewear': '🏃‍♀️',
+}
+
+export default function OutfitBuilder({ outfit, onClose, onSaved }: OutfitBuilderProps) {
+  const { user } = useAuth()
+  const { data: cachedItems, isLoading } = useItems()
+  const [isSaving, setIsSaving] = useState(false)
+  const [name, setName] = useState(outfit?.name || '')
+  const [notes, setNotes] = useState(outfit?.notes || '')
+  const [selectedIds, setSelectedIds] = useState<string[]>(outfit?.items.map(item => item.id) || [])
+  const [selectedCategory, setSelectedCategory] = useState<string>('all')
+
+  const categories = [
+    { key: 'all', name: 'All', icon: '📁' },
+    ...Object.entries(categoryDisplayNames).map(([key, name]) => ({
+      key,
+      name,
+      icon: categoryIcons[key as keyof typeof categoryIcons]
+    }))
+  ]
+
+  const items = useMemo(
+    () => [...(cachedItems || [])].sort((a, b) => a.name.localeCompare(b.name, 'sv')),
+    [cachedItems]
+  )
+
+  const toggleItem = (itemId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(itemId)
+        ? prev.filter(id => id !== itemId)
+        : [...prev, itemId]
+    )
+  }
+
+  const handleSave = async () => {
+    if (!user) return
+
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter an outfit name')
+      return
+    }
+
+    if (selectedIds.length < 2) {
+      Alert.alert('Error', 'Pick at least two items for the outfit')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const result = await saveOutfit(user.id, {
+        id: outfit?.id,
+        name,
+        notes,
+        itemIds: selectedIds,
+      })
+
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to save outfit. Please try again.')
+        return
+      }
+
+      onSaved()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const visibleItems = selectedCategory === 'all'
+    ? items
+    : items.filter(item => item.category === selectedCategory)
+
+  const renderItem = ({ item }: { item: ClothingItem }) => {
+    const isSelected = selectedIds.includes(item.id)
+    const primaryImage = item.image_urls && item.image_urls.length > 0 ? item.image_urls[0] : null
+    const categoryIcon = categoryIcons[item.category as keyof typeof categoryIcons] || '👕'
+
+    return (
+      <TouchableOpacity
+        style={[styles.itemCard, isSelected && styles.itemCardSelected]}
+        onPress={() => toggleItem(item.id)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.itemImageContainer}>
+          {primaryImage ? (
+            <Image source={{ uri: primaryImage }} style={styles.itemImage} resizeMode="cover" />
+          ) : (
+            <View style={styles.placeholderImage}>
+              <Text style={styles.placeholderIcon}>{categoryIcon}</Text>
+            </View>
+          )}
+        </View>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+          {item.brand && <Text style={styles.itemBrand} numberOfLines={1}>{item.brand}</Text>}
+        </View>
+        <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+          {isSelected && <Text style={styles.checkmark}>✓</Text>}
+        </View>
+      </TouchableOpacity>
+    )
+  }
+
+  return (
+    <Modal
+      visible={true}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{outfit ? 'Edit Outfit' : 'New Outfit'}</Text>
+          <TouchableOpacity
+            onPress={handleSave}
+            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color={Colors.textInverse} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Outfit Details */}
+        <View style={styles.form}>
+          <TextInput
+            style={styles.textInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Outfit name, e.g., Office Monday"
+            placeholderTextColor={Colors.textTertiary}
+          />
+          <TextInput
+            style={styles.textInput}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Notes (optional)"
+            placeholderTextColor={Colors.textTertiary}
+          />
+          <Text style={styles.selectionCount}>
+            {selectedIds.length} {selectedIds.length === 1 ? 'item' : 'items'} selected
+          </Text>
+        </View>
+
+        {/* Category Filter */}
+        <View>
+          <FlatList
+            horizontal
+            data={categories}
+            keyExtractor={category => category.key}
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.categoryList}
+            renderItem={({ item: category }) => (
+              <TouchableOpacity
+                style={[
+                  styles.categoryButton,
+                  selectedCategory === category.key && styles.categoryButtonActive
+                ]}
+                onPress={() => setSelectedCategory(category.key)}
+              >
+                <Text style={styles.categoryIcon}>{category.icon}</Text>
+                <Text style={[
+                  styles.categoryButtonText,
+                  selectedCategory === category.key && styles.categoryButtonTextActive
+                ]}>
+                  {category.name}
+                </Text>
+              </TouchableOpacity>
+            )}
+          />
+        </View>
+
+        {/* Item Picker */}
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={visibleItems}
+            renderItem={renderItem}
+            keyExtractor={item => item.id}
+            contentContainerStyle={styles.listContainer}
+            showsVerticalScrollIndicator={false}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>No items in this category</Text>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    backgroundColor: Colors.backgroundSecondary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+
+  closeButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+
+  closeButtonText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  headerTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+
+  saveButton: {
+    backgroundColor: Colors.success,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    minWidth: 60,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+
+  saveButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  form: {
+    padding: Spacing.lg,
+    paddingBottom: 0,
+  },
+
+  textInput: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: Spacing.sm,
+  },
+
+  selectionCount: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  categoryList: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+
+  categoryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginRight: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  categoryButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  categoryIcon: {
+    fontSize: Typography.fontSize.sm,
+    marginRight: Spacing.xs,
+  },
+
+  categoryButtonText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  categoryButtonTextActive: {
+    color: Colors.textInverse,
+  },
+
+  listContainer: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+  },
+
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  itemCardSelected: {
+    borderColor: Colors.primary,
+  },
+
+  itemImageContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    marginRight: Spacing.md,
+  },
+
+  itemImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  placeholderImage: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: Colors.backgroundSecondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  placeholderIcon: {
+    fontSize: 20,
+  },
+
+  itemInfo: {
+    flex: 1,
+  },
+
+  itemName: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+
+  itemBrand: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  checkboxSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  checkmark: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textInverse,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  emptyText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.xl,
+  },
+})
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { 
   View, 
   Text, 
@@ -6,29 +6,21 @@ import {
   FlatList, 
   TouchableOpacity, 
   Image, 
-  TextInput,
   Alert,
   ActivityIndicator
 } from 'react-native'
 import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
-import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-
-interface ClothingItem {
-  id: string
-  name: string
-  category: string
-  subcategory?: string
-  brand?: string
-  color?: string
-  times_worn: number
-  image_urls?: string[]
-  last_worn_date?: string
-}
-
-interface QuickWearTrackerProps {
-  onWearAdded?: () => void
-}
+import { useSync } from '../contexts/SyncContext'
+import { ClothingItem, recordWears, useItems } from '../lib/wardrobe'
+import DateSelector from './DateSelector'
+import { getTodayString, formatRelativeDate } from '../utils/dates'
+import { Outfit, fetchOutfits, wearOutfit } from '../utils/outfits'
+import { searchItems } from '../utils/search'
+import { itemsToWearSoon } from '../utils/declutter'
+import { isActiveItem } from '../utils/itemFilters'
+import { SmartCollection, fetchCollections, applyCollection } from '../utils/collections'
+import SearchBox from './SearchBox'
 
 const categoryDisplayNames = {
   'tops': 'Tops',
@@ -54,17 +46,30 @@ const categoryIcons = {
   'activewear': '🏃‍♀️',
 }
 
-export default function QuickWearTracker({ onWearAdded }: QuickWearTrackerProps) {
+export default function QuickWearTracker() {
   const { user } = useAuth()
-  const [items, setItems] = useState<ClothingItem[]>([])
+  const { pendingCount, syncNow } = useSync()
+  // Includes wears and edits that are still waiting to sync
+  const { data: cachedItems, isLoading } = useItems()
   const [filteredItems, setFilteredItems] = useState<ClothingItem[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  const [outfits, setOutfits] = useState<Outfit[]>([])
+  const [collections, setCollections] = useState<SmartCollection[]>([])
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedCategory, setSelectedCategory] = useState<string>('all')
   const [addingWearFor, setAddingWearFor] = useState<string | null>(null)
+  const [wearDate, setWearDate] = useState(getTodayString())
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [isCommitting, setIsCommitting] = useState(false)
 
   const categories = [
     { key: 'all', name: 'All Items', icon: '📁' },
+    ...(outfits.length > 0 ? [{ key: 'outfits', name: 'Outfits', icon: '🧩' }] : []),
+    ...collections.map(collection => ({
+      key: `collection:${collection.id}`,
+      name: collection.name,
+      icon: '✨'
+    })),
     ...Object.entries(categoryDisplayNames).map(([key, name]) => ({
       key,
       name,
@@ -72,89 +77,75 @@ export default function QuickWearTracker({ onWearAdded }: QuickWearTrackerProps)
     }))
   ]
 
+  // Items marked to wear soon on the declutter screen are listed first
+  const wearSoonIds = useMemo(
+    () => new Set(itemsToWearSoon(cachedItems || [], getTodayString()).map(item => item.id)),
+    [cachedItems]
+  )
+
+  // Retired, sold, donated and lost items cannot be worn, so they are not offered.
+  // Items in the wash go last; the rest stay alphabetical.
+  const items = useMemo(
+    () => (cachedItems || []).filter(isActiveItem).sort((a, b) =>
+      Number(wearSoonIds.has(b.id)) - Number(wearSoonIds.has(a.id)) ||
+      Number(a.laundry_state === 'in_wash') - Number(b.laundry_state === 'in_wash') ||
+      a.name.localeCompare(b.name, 'sv')
+    ),
+    [cachedItems, wearSoonIds]
+  )
+
   useEffect(() => {
     if (user) {
-      fetchItems()
+      // Without outfits only single items can be logged, so a failure is only logged
+      fetchOutfits().then(result => {
+        if (result.success) setOutfits(result.data)
+      })
+      fetchCollections().then(result => {
+        if (result.success) setCollections(result.data)
+      })
     }
   }, [user])
 
   useEffect(() => {
     filterItems()
-  }, [items, searchQuery, selectedCategory])
-
-  const fetchItems = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('clothing_items')
-        .select('id, name, category, subcategory, brand, color, times_worn, image_urls, last_worn_date')
-        .order('name', { ascending: true })
-
-      if (error) {
-        console.error('Error fetching items:', error)
-        return
-      }
-
-      setItems(data || [])
-    } catch (error) {
-      console.error('Error fetching items:', error)
-    } finally {
-      setIsLoading(false)
-    }
-  }
+  }, [items, collections, searchQuery, selectedCategory])
 
   const filterItems = () => {
     let filtered = items
 
-    // Category filter
-    if (selectedCategory !== 'all') {
+    // Category or smart collection filter
+    const collection = collections.find(c => `collection:${c.id}` === selectedCategory)
+    if (collection) {
+      filtered = applyCollection(filtered, collection)
+    } else if (selectedCategory !== 'all') {
       filtered = filtered.filter(item => item.category === selectedCategory)
     }
 
     // Search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      filtered = filtered.filter(item =>
-        item.name.toLowerCase().includes(query) ||
-        (item.brand && item.brand.toLowerCase().includes(query)) ||
-        (item.subcategory && item.subcategory.toLowerCase().includes(query)) ||
-        categoryDisplayNames[item.category as keyof typeof categoryDisplayNames]?.toLowerCase().includes(query)
-      )
-    }
+    filtered = searchItems(filtered, searchQuery)
 
     setFilteredItems(filtered)
   }
 
+  const filteredOutfits = searchQuery.trim()
+    ? outfits.filter(outfit => outfit.name.toLowerCase().includes(searchQuery.toLowerCase()))
+    : outfits
+
   const handleAddWear = async (item: ClothingItem) => {
     if (!user || addingWearFor === item.id) return
     
     setAddingWearFor(item.id)
     try {
-      // Add a wear history entry
-      const { error } = await supabase
-        .from('wear_history')
-        .insert({
-          user_id: user.id,
-          clothing_item_id: item.id,
-          date_worn: new Date().toISOString().split('T')[0] // Today's date
-        })
-
-      if (error) {
-        console.error('Error adding wear:', error)
+      // Add a wear history entry (queued locally when offline); every screen shows the new count
+      const result = await recordWears(user.id, [{
+        clothing_item_id: item.id,
+        date_worn: wearDate
+      }])
+
+      if (!result.success) {
         Alert.alert('Error', 'Failed to add wear. Please try again.')
         return
       }
-
-      // Update local state
-      const updatedItems = items.map(i => 
-        i.id === item.id 
-          ? { ...i, times_worn: i.times_worn + 1, last_worn_date: new Date().toISOString().split('T')[0] }
-          : i
-      )
-      setItems(updatedItems)
-      
-      // Call callback to refresh overview stats
-      onWearAdded?.()
-      
     } catch (error) {
       console.error('Error adding wear:', error)
       Alert.alert('Error', 'Failed to add wear. Please try again.')
@@ -163,6 +154,73 @@ export default function QuickWearTracker({ onWearAdded }: QuickWearTrackerProps)
     }
   }
 
+  const toggleSelecting = () => {
+    setIsSelecting(prev => !prev)
+    setSelectedIds([])
+  }
+
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(itemId)
+        ? prev.filter(id => id !== itemId)
+        : [...prev, itemId]
+    )
+  }
+
+  // Log every selected item in one batched insert instead of one request per item
+  const handleCommitSelection = async () => {
+    if (!user || selectedIds.length === 0 || isCommitting) return
+
+    setIsCommitting(true)
+    try {
+      const result = await recordWears(user.id, selectedIds.map(itemId => ({
+        clothing_item_id: itemId,
+        date_worn: wearDate
+      })))
+
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to log outfit. Please try again.')
+        return
+      }
+
+      const count = selectedIds.length
+      setSelectedIds([])
+      setIsSelecting(false)
+
+      Alert.alert(
+        result.queued ? 'Saved Offline' : 'Success',
+        `Logged ${count} ${count === 1 ? 'item' : 'items'} for ${formatRelativeDate(wearDate).toLowerCase()}!` +
+          (result.queued ? ' They will sync when you are back online.' : '')
+      )
+
+    } catch (error) {
+      console.error('Error adding wears:', error)
+      Alert.alert('Error', 'Failed to log outfit. Please try again.')
+    } finally {
+      setIsCommitting(false)
+    }
+  }
+
+  const handleWearOutfit = async (outfit: Outfit) => {
+    if (!user || addingWearFor === outfit.id) return
+
+    setAddingWearFor(outfit.id)
+    try {
+      const result = await wearOutfit(user.id, outfit, wearDate)
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to log outfit. Please try again.')
+        return
+      }
+
+      // wearOutfit counts the item wears in the shared cache; only the outfit count is local
+      setOutfits(prev => prev.map(o =>
+        o.id === outfit.id ? { ...o, times_worn: o.times_worn + 1 } : o
+      ))
+    } finally {
+      setAddingWearFor(null)
+    }
+  }
+
   const renderCategoryFilter = () => (
     <View style={styles.categoryFilterContainer}>
       <FlatList
@@ -196,9 +254,16 @@ export default function QuickWearTracker({ onWearAdded }: QuickWearTrackerProps)
     const primaryImage = item.image_urls && item.image_urls.length > 0 ? item.image_urls[0] : null
     const categoryIcon = categoryIcons[item.category as keyof typeof categoryIcons] || '👕'
     const isAddingWear = addingWearFor === item.id
+    const isSelected = selectedIds.includes(item.id)
+    const isInWash = item.laundry_state === 'in_wash'
     
     return (
-      <View style={styles.itemCard}>
+      <TouchableOpacity
+        style={[styles.itemCard, isInWash && styles.itemCardInWash, isSelected && styles.itemCardSelected]}
+        onPress={() => toggleSelected(item.id)}
+        disabled={!isSelecting}
+        activeOpacity={0.7}
+      >
         <View style={styles.itemImageContainer}>
           {primaryImage ? (
             <Image 
@@ -217,6 +282,8 @@ export default function QuickWearTracker({ onWearAdded }: QuickWearTrackerProps)
           <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
           {item.brand && <Text style={styles.itemBrand} numberOfLines={1}>{item.brand}</Text>}
           <View style={styles.itemStats}>
+            {wearSoonIds.has(item.id) && <Text style={styles.wearSoon}>Wear soon</Text>}
+            {isInWash && <Text style={styles.inWash}>In the wash</Text>}
             <Text style={styles.timesWorn}>{item.times_worn} wears</Text>
             {item.last_worn_date && (
               <Text style={styles.lastWorn}>
@@ -226,9 +293,51 @@ export default function QuickWearTracker({ onWearAdded }: QuickWearTrackerProps)
           </View>
         </View>
 
+        {isSelecting ? (
+          <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+            {isSelected && <Text style={styles.checkmark}>✓</Text>}
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={[styles.addWearButton, isAddingWear && styles.addWearButtonLoading]}
+            onPress={() => handleAddWear(item)}
+            disabled={isAddingWear}
+          >
+            {isAddingWear ? (
+              <ActivityIndicator size="small" color={Colors.textInverse} />
+            ) : (
+              <Text style={styles.addWearButtonText}>+1</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    )
+  }
+
+  const renderOutfit = ({ item: outfit }: { item: Outfit }) => {
+    const isAddingWear = addingWearFor === outfit.id
+
+    return (
+      <View style={styles.itemCard}>
+        <View style={styles.itemImageContainer}>
+          <View style={styles.placeholderImage}>
+            <Text style={styles.placeholderIcon}>🧩</Text>
+          </View>
+        </View>
+
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} numberOfLines={1}>{outfit.name}</Text>
+          <Text style={styles.itemBrand} numberOfLines={1}>
+            {outfit.items.map(item => item.name).join(', ')}
+          </Text>
+          <View style={styles.itemStats}>
+            <Text style={styles.timesWorn}>{outfit.times_worn} wears</Text>
+          </View>
+        </View>
+
         <TouchableOpacity
           style={[styles.addWearButton, isAddingWear && styles.addWearButtonLoading]}
-          onPress={() => handleAddWear(item)}
+          onPress={() => handleWearOutfit(outfit)}
           disabled={isAddingWear}
         >
           {isAddingWear ? (
@@ -254,26 +363,57 @@ export default function QuickWearTracker({ onWearAdded }: QuickWearTrackerProps)
     <View style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.title}>Quick Wear Tracking</Text>
-        <Text style={styles.subtitle}>Tap +1 to log wearing an item today</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>Quick Wear Tracking</Text>
+          <TouchableOpacity
+            style={[styles.selectButton, isSelecting && styles.selectButtonActive]}
+            onPress={toggleSelecting}
+          >
+            <Text style={[styles.selectButtonText, isSelecting && styles.selectButtonTextActive]}>
+              {isSelecting ? 'Cancel' : 'Select'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>
+          {isSelecting
+            ? 'Tick everything you wore, then log it all at once'
+            : `Tap +1 to log wearing an item ${wearDate === getTodayString() ? 'today' : `on ${formatRelativeDate(wearDate)}`}`}
+        </Text>
+        <View style={styles.dateSelector}>
+          <DateSelector value={wearDate} onChange={setWearDate} label="Date worn" />
+        </View>
       </View>
 
+      {/* Offline Sync Status */}
+      {pendingCount > 0 && (
+        <TouchableOpacity style={styles.syncBanner} onPress={syncNow}>
+          <Text style={styles.syncBannerText}>
+            ⏳ {pendingCount} {pendingCount === 1 ? 'change' : 'changes'} waiting to sync · Tap to retry
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Search Input */}
       <View style={styles.searchContainer}>
-        <TextInput
-          style={styles.searchInput}
-          placeholder="Search items..."
-          value={searchQuery}
-          onChangeText={setSearchQuery}
-          placeholderTextColor={Colors.textTertiary}
-        />
+        <SearchBox value={searchQuery} onChangeText={setSearchQuery} />
       </View>
 
       {/* Category Filter */}
       {renderCategoryFilter()}
 
-      {/* Items List */}
-      {filteredItems.length === 0 ? (
+      {/* Outfits or Items List */}
+      {selectedCategory === 'outfits' ? (
+        <FlatList
+          data={filteredOutfits}
+          renderItem={renderOutfit}
+          keyExtractor={outfit => outfit.id}
+          contentContainerStyle={styles.listContainer}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>No outfits match your search</Text>
+          }
+        />
+      ) : filteredItems.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Text style={styles.emptyText}>
             {searchQuery || selectedCategory !== 'all' 
@@ -290,6 +430,30 @@ export default function QuickWearTracker({ onWearAdded }: QuickWearTrackerProps)
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      {/* Selection Commit Bar */}
+      {isSelecting && selectedCategory !== 'outfits' && (
+        <View style={styles.commitBar}>
+          <TouchableOpacity
+            style={[
+              styles.commitButton,
+              (selectedIds.length === 0 || isCommitting) && styles.commitButtonDisabled
+            ]}
+            onPress={handleCommitSelection}
+            disabled={selectedIds.length === 0 || isCommitting}
+          >
+            {isCommitting ? (
+              <ActivityIndicator size="small" color={Colors.textInverse} />
+            ) : (
+              <Text style={styles.commitButtonText}>
+                {selectedIds.length === 0
+                  ? 'Select items to log'
+                  : `Log ${selectedIds.length} ${selectedIds.length === 1 ? 'item' : 'items'} for ${formatRelativeDate(wearDate).toLowerCase()}`}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   )
 }
@@ -306,11 +470,39 @@ const styles = StyleSheet.create({
     borderBottomColor: Colors.border,
   },
   
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.xs,
+  },
+  
   title: {
     fontSize: Typography.fontSize.lg,
     fontWeight: Typography.fontWeight.bold,
     color: Colors.textAccent,
-    marginBottom: Spacing.xs,
+  },
+  
+  selectButton: {
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  
+  selectButtonActive: {
+    backgroundColor: Colors.primary,
+  },
+  
+  selectButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.primary,
+  },
+  
+  selectButtonTextActive: {
+    color: Colors.textInverse,
   },
   
   subtitle: {
@@ -318,20 +510,27 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
   },
   
-  searchContainer: {
-    padding: Spacing.lg,
-    paddingBottom: Spacing.md,
+  dateSelector: {
+    marginTop: Spacing.md,
   },
   
-  searchInput: {
-    backgroundColor: Colors.surface,
-    borderRadius: BorderRadius.md,
-    paddingHorizontal: Spacing.md,
+  syncBanner: {
+    backgroundColor: Colors.surfaceSecondary,
+    paddingHorizontal: Spacing.lg,
     paddingVertical: Spacing.sm,
-    fontSize: Typography.fontSize.md,
-    color: Colors.textPrimary,
-    borderWidth: 1,
-    borderColor: Colors.border,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.warning,
+  },
+  
+  syncBannerText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.warning,
+    textAlign: 'center',
+  },
+  
+  searchContainer: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing.md,
   },
   
   categoryFilterContainer: {
@@ -391,6 +590,59 @@ const styles = StyleSheet.create({
     borderColor: Colors.border,
   },
   
+  itemCardInWash: {
+    opacity: 0.5,
+  },
+  
+  itemCardSelected: {
+    borderColor: Colors.primary,
+  },
+  
+  checkbox: {
+    width: 28,
+    height: 28,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  
+  checkboxSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  
+  checkmark: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textInverse,
+  },
+  
+  commitBar: {
+    padding: Spacing.lg,
+    backgroundColor: Colors.backgroundSecondary,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  
+  commitButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+  },
+  
+  commitButtonDisabled: {
+    opacity: 0.6,
+  },
+  
+  commitButtonText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+  
   itemImageContainer: {
     width: 50,
     height: 50,
@@ -438,6 +690,20 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   
+  inWash: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textTertiary,
+    fontWeight: Typography.fontWeight.semibold,
+    marginRight: Spacing.sm,
+  },
+  
+  wearSoon: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.warning,
+    fontWeight: Typography.fontWeight.semibold,
+    marginRight: Spacing.sm,
+  },
+  
   timesWorn: {
     fontSize: Typography.fontSize.xs,
     color: Colors.primary,
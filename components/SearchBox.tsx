@@ -0,0 +1,134 @@
+import React, { useState } from 'react'
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius } from '../constants'
+
+interface SearchBoxProps {
+  value: string
+  onChangeText: (query: string) => void
+  placeholder?: string
+}
+
+const examples = [
+  { query: 'brand:cos color:black', description: 'Match a field' },
+  { query: 'worn:<3 price:>500', description: 'Compare times worn, price or cpw (cost per wear)' },
+  { query: '-lastworn:>=thisyear', description: 'Dates: lastworn or bought, e.g. 2024-06-01, 30d, 6m, thisyear' },
+  { query: 'secondhand dogwear unworn', description: 'Only flagged items' },
+  { query: '-wool', description: 'Exclude a match' },
+  { query: 'linen', description: 'Free text also searches notes, material, pattern and store' },
+]
+
+export default function SearchBox({ value, onChangeText, placeholder = 'Search items...' }: SearchBoxProps) {
+  const [showHelp, setShowHelp] = useState(false)
+
+  return (
+    <View>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder={placeholder}
+          value={value}
+          onChangeText={onChangeText}
+          placeholderTextColor={Colors.textTertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {value.length > 0 && (
+          <TouchableOpacity style={styles.iconButton} onPress={() => onChangeText('')}>
+            <Text style={styles.iconButtonText}>✕</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.iconButton, showHelp && styles.iconButtonActive]}
+          onPress={() => setShowHelp(!showHelp)}
+        >
+          <Text style={[styles.iconButtonText, showHelp && styles.iconButtonTextActive]}>?</Text>
+        </TouchableOpacity>
+      </View>
+
+      {showHelp && (
+        <View style={styles.help}>
+          {examples.map(example => (
+            <TouchableOpacity
+              key={example.query}
+              style={styles.helpRow}
+              onPress={() => onChangeText(example.query)}
+            >
+              <Text style={styles.helpQuery}>{example.query}</Text>
+              <Text style={styles.helpDescription}>{example.description}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  input: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: Spacing.sm,
+  },
+
+  iconButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  iconButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textSecondary,
+  },
+
+  iconButtonTextActive: {
+    color: Colors.textInverse,
+  },
+
+  help: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+
+  helpRow: {
+    paddingVertical: Spacing.xs,
+  },
+
+  helpQuery: {
+    fontSize: Typography.fontSize.sm,
+    fontFamily: 'monospace',
+    color: Colors.primary,
+  },
+
+  helpDescription: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.textSecondary,
+  },
+})
@@ -0,0 +1,623 @@
+import React, { useState, useMemo } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  TextInput,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius, Shadow } from '../constants'
+import { ClothingItem, useItems } from '../lib/wardrobe'
+import { useAuth } from '../contexts/AuthContext'
+import { Trip, saveTrip } from '../utils/trips'
+import { getTripDates, proposePackingList, tripActivities } from '../utils/packing'
+import { addDays, getTodayString, isValidDateString } from '../utils/dates'
+import { isActiveItem } from '../utils/itemFilters'
+
+interface TripPlannerProps {
+  trip?: Trip
+  onClose: () => void
+  onSaved: () => void
+}
+
+const categoryDisplayNames = {
+  'tops': 'Tops',
+  'bottoms': 'Bottoms',
+  'dresses_jumpsuits': 'Dresses & Jumpsuits',
+  'shoes': 'Shoes',
+  'accessories': 'Accessories',
+  'outerwear': 'Outerwear',
+  'underwear': 'Underwear',
+  'sleepwear': 'Sleepwear',
+  'activewear': 'Activewear',
+}
+
+const categoryIcons = {
+  'tops': '👕',
+  'bottoms': '👖',
+  'dresses_jumpsuits': '👗',
+  'shoes': '👟',
+  'accessories': '👒',
+  'outerwear': '🧥',
+  'underwear': '🩲',
+  'sleepwear': '🩱',
+  'activewear': '🏃‍♀️',
+}
+
+export default function TripPlanner({ trip, onClose, onSaved }: TripPlannerProps) {
+  const { user } = useAuth()
+  const { data: cachedItems, isLoading } = useItems()
+  const [isSaving, setIsSaving] = useState(false)
+  const [destination, setDestination] = useState(trip?.destination || '')
+  const [startDate, setStartDate] = useState(trip?.start_date || addDays(getTodayString(), 7))
+  const [endDate, setEndDate] = useState(trip?.end_date || addDays(getTodayString(), 10))
+  const [activities, setActivities] = useState<string[]>(trip?.activities || [])
+  const [bringsDog, setBringsDog] = useState(trip?.brings_dog || false)
+  const [notes, setNotes] = useState(trip?.notes || '')
+  const [selectedIds, setSelectedIds] = useState<string[]>(trip?.items.map(item => item.id) || [])
+  const [selectedCategory, setSelectedCategory] = useState<string>('all')
+
+  const categories = [
+    { key: 'all', name: 'All', icon: '📁' },
+    ...Object.entries(categoryDisplayNames).map(([key, name]) => ({
+      key,
+      name,
+      icon: categoryIcons[key as keyof typeof categoryIcons]
+    }))
+  ]
+
+  // Items already on the list stay pickable even if they were retired since
+  const items = useMemo(
+    () => (cachedItems || [])
+      .filter(item => isActiveItem(item) || trip?.items.some(tripItem => tripItem.id === item.id))
+      .sort((a, b) => a.name.localeCompare(b.name, 'sv')),
+    [cachedItems, trip]
+  )
+
+  const hasValidDates = isValidDateString(startDate) && isValidDateString(endDate) && endDate >= startDate
+
+  const toggleItem = (itemId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(itemId)
+        ? prev.filter(id => id !== itemId)
+        : [...prev, itemId]
+    )
+  }
+
+  const toggleActivity = (activity: string) => {
+    setActivities(prev =>
+      prev.includes(activity)
+        ? prev.filter(key => key !== activity)
+        : [...prev, activity]
+    )
+  }
+
+  const handlePropose = () => {
+    if (!hasValidDates) {
+      Alert.alert('Error', 'Please enter the trip dates as YYYY-MM-DD, ending on or after the first day')
+      return
+    }
+
+    const proposal = proposePackingList(cachedItems || [], {
+      start_date: startDate,
+      end_date: endDate,
+      activities,
+      brings_dog: bringsDog,
+    })
+
+    if (proposal.length === 0) {
+      Alert.alert('Nothing to propose', 'Add some clean items to your wardrobe first.')
+      return
+    }
+
+    setSelectedIds(proposal)
+  }
+
+  const handleSave = async () => {
+    if (!user) return
+
+    if (!destination.trim()) {
+      Alert.alert('Error', 'Please enter a destination')
+      return
+    }
+
+    if (!hasValidDates) {
+      Alert.alert('Error', 'Please enter the trip dates as YYYY-MM-DD, ending on or after the first day')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const result = await saveTrip(user.id, {
+        id: trip?.id,
+        destination,
+        start_date: startDate,
+        end_date: endDate,
+        activities,
+        brings_dog: bringsDog,
+        notes,
+        itemIds: selectedIds,
+      })
+
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to save trip. Please try again.')
+        return
+      }
+
+      onSaved()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const visibleItems = selectedCategory === 'all'
+    ? items
+    : items.filter(item => item.category === selectedCategory)
+
+  const renderItem = ({ item }: { item: ClothingItem }) => {
+    const isSelected = selectedIds.includes(item.id)
+    const primaryImage = item.image_urls && item.image_urls.length > 0 ? item.image_urls[0] : null
+    const categoryIcon = categoryIcons[item.category as keyof typeof categoryIcons] || '👕'
+
+    return (
+      <TouchableOpacity
+        style={[styles.itemCard, isSelected && styles.itemCardSelected]}
+        onPress={() => toggleItem(item.id)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.itemImageContainer}>
+          {primaryImage ? (
+            <Image source={{ uri: primaryImage }} style={styles.itemImage} resizeMode="cover" />
+          ) : (
+            <View style={styles.placeholderImage}>
+              <Text style={styles.placeholderIcon}>{categoryIcon}</Text>
+            </View>
+          )}
+        </View>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.itemBrand} numberOfLines={1}>
+            {[item.brand, item.dog_wear ? '🐕 Dog wear' : null, item.laundry_state === 'in_wash' ? 'In the wash' : null]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+        </View>
+        <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+          {isSelected && <Text style={styles.checkmark}>✓</Text>}
+        </View>
+      </TouchableOpacity>
+    )
+  }
+
+  const renderForm = () => (
+    <View>
+      {/* Trip Details */}
+      <View style={styles.form}>
+        <TextInput
+          style={styles.textInput}
+          value={destination}
+          onChangeText={setDestination}
+          placeholder="Destination, e.g., Gothenburg"
+          placeholderTextColor={Colors.textTertiary}
+        />
+        <View style={styles.dateRow}>
+          <View style={styles.dateField}>
+            <Text style={styles.fieldLabel}>From</Text>
+            <TextInput
+              style={styles.textInput}
+              value={startDate}
+              onChangeText={setStartDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={Colors.textTertiary}
+              autoCapitalize="none"
+            />
+          </View>
+          <View style={styles.dateField}>
+            <Text style={styles.fieldLabel}>To</Text>
+            <TextInput
+              style={styles.textInput}
+              value={endDate}
+              onChangeText={setEndDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={Colors.textTertiary}
+              autoCapitalize="none"
+            />
+          </View>
+        </View>
+
+        <Text style={styles.fieldLabel}>Activities</Text>
+        <View style={styles.chipRow}>
+          {tripActivities.map(activity => (
+            <TouchableOpacity
+              key={activity.key}
+              style={[styles.chip, activities.includes(activity.key) && styles.chipSelected]}
+              onPress={() => toggleActivity(activity.key)}
+            >
+              <Text style={[styles.chipText, activities.includes(activity.key) && styles.chipTextSelected]}>
+                {activity.icon} {activity.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.chip, bringsDog && styles.chipSelected]}
+            onPress={() => setBringsDog(prev => !prev)}
+          >
+            <Text style={[styles.chipText, bringsDog && styles.chipTextSelected]}>🐕 Dog comes along</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TextInput
+          style={styles.textInput}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="Notes (optional)"
+          placeholderTextColor={Colors.textTertiary}
+        />
+
+        <View style={styles.proposeRow}>
+          <Text style={styles.selectionCount}>
+            {selectedIds.length} {selectedIds.length === 1 ? 'item' : 'items'} to pack
+            {hasValidDates && ` · ${getTripDates(startDate, endDate).length} days`}
+          </Text>
+          <TouchableOpacity style={styles.proposeButton} onPress={handlePropose}>
+            <Text style={styles.proposeButtonText}>✨ Propose list</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Category Filter */}
+      <FlatList
+        horizontal
+        data={categories}
+        keyExtractor={category => category.key}
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.categoryList}
+        renderItem={({ item: category }) => (
+          <TouchableOpacity
+            style={[
+              styles.categoryButton,
+              selectedCategory === category.key && styles.categoryButtonActive
+            ]}
+            onPress={() => setSelectedCategory(category.key)}
+          >
+            <Text style={styles.categoryIcon}>{category.icon}</Text>
+            <Text style={[
+              styles.categoryButtonText,
+              selectedCategory === category.key && styles.categoryButtonTextActive
+            ]}>
+              {category.name}
+            </Text>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  )
+
+  return (
+    <Modal
+      visible={true}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{trip ? 'Edit Trip' : 'New Trip'}</Text>
+          <TouchableOpacity
+            onPress={handleSave}
+            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color={Colors.textInverse} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* The form scrolls with the item picker, so the list has room on small screens */}
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={visibleItems}
+            renderItem={renderItem}
+            keyExtractor={item => item.id}
+            ListHeaderComponent={renderForm()}
+            contentContainerStyle={styles.listContainer}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>No items in this category</Text>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    backgroundColor: Colors.backgroundSecondary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+
+  closeButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+
+  closeButtonText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  headerTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+
+  saveButton: {
+    backgroundColor: Colors.success,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    minWidth: 60,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+
+  saveButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  form: {
+    paddingTop: Spacing.lg,
+  },
+
+  textInput: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: Spacing.sm,
+  },
+
+  dateRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+
+  dateField: {
+    flex: 1,
+  },
+
+  fieldLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.xs,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+
+  chip: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  chipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+  },
+
+  chipTextSelected: {
+    color: Colors.textInverse,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+
+  proposeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+
+  selectionCount: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  proposeButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+
+  proposeButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  categoryList: {
+    paddingVertical: Spacing.md,
+  },
+
+  categoryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginRight: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+
+  categoryButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  categoryIcon: {
+    fontSize: Typography.fontSize.sm,
+    marginRight: Spacing.xs,
+  },
+
+  categoryButtonText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  categoryButtonTextActive: {
+    color: Colors.textInverse,
+  },
+
+  listContainer: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+  },
+
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    ...Shadow.sm,
+  },
+
+  itemCardSelected: {
+    borderColor: Colors.primary,
+  },
+
+  itemImageContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    marginRight: Spacing.md,
+  },
+
+  itemImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  placeholderImage: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: Colors.backgroundSecondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  placeholderIcon: {
+    fontSize: 20,
+  },
+
+  itemInfo: {
+    flex: 1,
+  },
+
+  itemName: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textPrimary,
+  },
+
+  itemBrand: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  checkboxSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+
+  checkmark: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.textInverse,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  emptyText: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.xl,
+  },
+})
@@ -0,0 +1,299 @@
+import React, { useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Colors, Spacing, Typography, BorderRadius } from '../constants'
+import { WearRecord, useWears, updateWear, removeWear } from '../lib/wardrobe'
+import { confirmAction } from '../utils/confirm'
+import { isValidDateString, formatDisplayDate } from '../utils/dates'
+
+interface WearHistoryProps {
+  itemId: string
+}
+
+export default function WearHistory({ itemId }: WearHistoryProps) {
+  // Reloaded whenever a wear of this item is added, edited or removed anywhere in the app
+  const { data: wears = [], isLoading } = useWears(itemId)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editedDate, setEditedDate] = useState('')
+  const [editedNotes, setEditedNotes] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const startEditing = (wear: WearRecord) => {
+    setEditingId(wear.id)
+    setEditedDate(wear.date_worn || '')
+    setEditedNotes(wear.notes || '')
+  }
+
+  const handleSave = async (wear: WearRecord) => {
+    const dateWorn = editedDate.trim()
+    if (dateWorn && !isValidDateString(dateWorn)) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD')
+      return
+    }
+
+    setBusyId(wear.id)
+    try {
+      // The stats trigger recomputes last_worn_date when date_worn changes
+      const result = await updateWear(wear.id, {
+        date_worn: dateWorn || null,
+        notes: editedNotes.trim() || null,
+      })
+
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to update wear. Please try again.')
+        return
+      }
+
+      setEditingId(null)
+    } catch (error) {
+      console.error('Error updating wear:', error)
+      Alert.alert('Error', 'Failed to update wear. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (wear: WearRecord) => {
+    const confirmed = await confirmAction(
+      'Remove Wear',
+      `Remove the wear from ${formatDisplayDate(wear.date_worn, 'an unknown date')}?`,
+      'Remove'
+    )
+    if (!confirmed) return
+
+    setBusyId(wear.id)
+    try {
+      // The stats trigger decrements times_worn and recomputes last_worn_date
+      const result = await removeWear(wear.id)
+
+      if (!result.success) {
+        Alert.alert('Error', 'Failed to remove wear. Please try again.')
+        return
+      }
+    } catch (error) {
+      console.error('Error deleting wear:', error)
+      Alert.alert('Error', 'Failed to remove wear. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const renderWear = (wear: WearRecord) => {
+    const isBusy = busyId === wear.id
+
+    if (editingId === wear.id) {
+      return (
+        <View key={wear.id} style={styles.wearRow}>
+          <View style={styles.editForm}>
+            <Text style={styles.fieldLabel}>Date worn</Text>
+            <TextInput
+              style={styles.textInput}
+              value={editedDate}
+              onChangeText={setEditedDate}
+              placeholder="YYYY-MM-DD (leave empty if unknown)"
+              placeholderTextColor={Colors.textTertiary}
+            />
+            <Text style={styles.fieldLabel}>Note</Text>
+            <TextInput
+              style={styles.textInput}
+              value={editedNotes}
+              onChangeText={setEditedNotes}
+              placeholder="e.g., wedding, office party"
+              placeholderTextColor={Colors.textTertiary}
+            />
+            <View style={styles.editActions}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditingId(null)}>
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, isBusy && styles.buttonDisabled]}
+                onPress={() => handleSave(wear)}
+                disabled={isBusy}
+              >
+                {isBusy ? (
+                  <ActivityIndicator size="small" color={Colors.textInverse} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )
+    }
+
+    return (
+      <View key={wear.id} style={styles.wearRow}>
+        <View style={styles.timelineDot} />
+        <View style={styles.wearInfo}>
+          <Text style={styles.wearDate}>
+            {formatDisplayDate(wear.date_worn, 'Date unknown')}
+          </Text>
+          {wear.notes && <Text style={styles.wearNotes}>{wear.notes}</Text>}
+        </View>
+        <TouchableOpacity style={styles.actionButton} onPress={() => startEditing(wear)} disabled={isBusy}>
+          <Text style={styles.actionButtonText}>Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(wear)} disabled={isBusy}>
+          {isBusy ? (
+            <ActivityIndicator size="small" color={Colors.error} />
+          ) : (
+            <Text style={[styles.actionButtonText, styles.deleteText]}>✕</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Wear History</Text>
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} />
+      ) : wears.length === 0 ? (
+        <Text style={styles.emptyText}>No wears logged yet</Text>
+      ) : (
+        wears.map(renderWear)
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+
+  sectionTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textAccent,
+    marginBottom: Spacing.md,
+  },
+
+  emptyText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textTertiary,
+  },
+
+  wearRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+
+  timelineDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: Colors.primary,
+    marginRight: Spacing.md,
+  },
+
+  wearInfo: {
+    flex: 1,
+  },
+
+  wearDate: {
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  wearNotes: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+
+  actionButton: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    marginLeft: Spacing.xs,
+    minWidth: 32,
+    alignItems: 'center',
+  },
+
+  actionButtonText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary,
+    fontWeight: Typography.fontWeight.medium,
+  },
+
+  deleteText: {
+    color: Colors.error,
+  },
+
+  editForm: {
+    flex: 1,
+  },
+
+  fieldLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.xs,
+  },
+
+  textInput: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.md,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: Spacing.sm,
+  },
+
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+  },
+
+  primaryButton: {
+    backgroundColor: Colors.success,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+
+  primaryButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.textInverse,
+  },
+
+  secondaryButton: {
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+  },
+
+  secondaryButtonText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.textSecondary,
+  },
+
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+})
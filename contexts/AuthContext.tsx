@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { supabase } from '../lib/supabase'
+import { clearQueryCache } from '../lib/queryCache'
+import { setQueueUser } from '../lib/offlineQueue'
 import { Session, User } from '@supabase/supabase-js'
 
 interface AuthContextType {
@@ -29,6 +31,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   useEffect(() => {
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
+      setQueueUser(session?.user.id ?? null)
       setSession(session)
       setUser(session?.user ?? null)
       setLoading(false)
@@ -37,7 +40,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     // Listen for auth changes
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      // Cached queries belong to the previous user
+      if (event === 'SIGNED_OUT') {
+        clearQueryCache()
+      }
+      // Queued offline changes are kept per user and only sent with their own session
+      setQueueUser(session?.user.id ?? null)
       setSession(session)
       setUser(session?.user ?? null)
       setLoading(false)
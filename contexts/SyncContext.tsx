@@ -0,0 +1,55 @@
+import React, { createContext, useContext, useEffect, useState } from 'react'
+import { flushQueue, getQueuedOperations, startQueueSync, subscribeToQueue } from '../lib/offlineQueue'
+import { subscribeToWardrobeChanges } from '../lib/realtime'
+import { useAuth } from './AuthContext'
+
+interface SyncContextType {
+  pendingCount: number
+  syncNow: () => Promise<void>
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined)
+
+export const useSync = () => {
+  const context = useContext(SyncContext)
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider')
+  }
+  return context
+}
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth()
+  const [pendingCount, setPendingCount] = useState(0)
+
+  useEffect(() => {
+    return subscribeToQueue(queue => setPendingCount(queue.length))
+  }, [])
+
+  // The queue belongs to the signed-in user (see setQueueUser), so sync only runs while signed in
+  useEffect(() => {
+    if (!user) return
+
+    // Pick up anything queued in a previous session
+    getQueuedOperations().then(queue => setPendingCount(queue.length))
+
+    return startQueueSync()
+  }, [user?.id])
+
+  // Changes made on other devices arrive live
+  useEffect(() => {
+    if (!user) return
+    return subscribeToWardrobeChanges(user.id)
+  }, [user?.id])
+
+  const syncNow = async () => {
+    await flushQueue()
+  }
+
+  const value = {
+    pendingCount,
+    syncNow,
+  }
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>
+}
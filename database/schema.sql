@@ -14,6 +14,45 @@ CREATE TYPE clothing_category AS ENUM (
   'activewear'
 );
 
+-- Where an item is in its life. Only active items are in the wardrobe today;
+-- the others are kept for their wear history and analytics.
+CREATE TYPE item_status AS ENUM (
+  'active',
+  'retired', -- kept but no longer worn
+  'sold',
+  'donated',
+  'lost'
+);
+
+-- Laundry state of an item
+CREATE TYPE laundry_state AS ENUM (
+  'clean',
+  'needs_wash', -- worn wears_before_wash times since the last wash
+  'in_wash'
+);
+
+-- Kinds of work done on an item after it was bought
+CREATE TYPE maintenance_type AS ENUM (
+  'repair',
+  'alteration',
+  'resole',
+  'dry_cleaning',
+  'other'
+);
+
+-- How warm an item is, used to suggest outfits for the weather
+CREATE TYPE warmth_level AS ENUM (
+  'light', -- warm days, around 20°C and up
+  'medium', -- mild days, around 10-20°C
+  'warm' -- cold days, below around 10°C
+);
+
+-- Choices made on the forgotten items (declutter) screen. Retiring an item sets its status instead.
+CREATE TYPE declutter_decision AS ENUM (
+  'wear_soon', -- bring it back into rotation
+  'keep' -- keep it without wearing it, e.g. for special occasions
+);
+
 -- Main clothing items table
 CREATE TABLE clothing_items (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -28,6 +67,12 @@ CREATE TABLE clothing_items (
   pattern VARCHAR(50), -- e.g., "solid", "stripes", "floral"
   material VARCHAR(100), -- e.g., "cotton", "polyester", "wool"
   
+  -- Care instructions, as on the care label (NULL when not recorded)
+  care_wash_temperature SMALLINT CHECK (care_wash_temperature BETWEEN 20 AND 95), -- max machine wash in °C
+  care_tumble_dry BOOLEAN,
+  care_dry_clean_only BOOLEAN,
+  care_iron BOOLEAN,
+  
   -- Purchase info
   purchase_date DATE,
   purchase_price DECIMAL(10,2),
@@ -37,10 +82,32 @@ CREATE TABLE clothing_items (
   -- Special flags
   dog_wear BOOLEAN DEFAULT FALSE, -- true if suitable for wearing when with dogs/walking dogs
   
+  -- Weather suitability, for outfit suggestions
+  warmth warmth_level, -- NULL when not rated; suits any temperature
+  waterproof BOOLEAN NOT NULL DEFAULT FALSE, -- true if fine to wear in rain or snow
+  
   -- Usage tracking
   times_worn INTEGER DEFAULT 0,
   last_worn_date DATE,
   
+  -- Laundry (wears_since_wash is kept up to date by the wear_history trigger)
+  laundry_state laundry_state NOT NULL DEFAULT 'clean',
+  wears_before_wash INTEGER NOT NULL DEFAULT 1 CHECK (wears_before_wash > 0),
+  wears_since_wash INTEGER NOT NULL DEFAULT 0, -- dated wears since the last wash, see counts_towards_wash
+  last_washed_date DATE,
+  last_washed_at TIMESTAMP WITH TIME ZONE, -- when it was marked clean, to place wears logged on the wash day
+  
+  -- Lifecycle
+  status item_status NOT NULL DEFAULT 'active',
+  status_date DATE, -- when the item was retired, sold, donated or lost
+  sale_price DECIMAL(10,2), -- resale income for sold items
+  maintenance_cost DECIMAL(10,2) NOT NULL DEFAULT 0, -- sum of maintenance_events.cost, kept in sync by a trigger
+  status_reason TEXT,
+  
+  -- Declutter review (the latest decision and when it was made)
+  declutter_decision declutter_decision,
+  declutter_decided_at DATE,
+  
   -- Images
   image_urls TEXT[], -- array of image URLs
   
@@ -52,11 +119,61 @@ CREATE TABLE clothing_items (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Outfits (saved combinations of clothing items)
+CREATE TABLE outfits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  
+  name VARCHAR(255) NOT NULL,
+  notes TEXT,
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Items that make up an outfit
+CREATE TABLE outfit_items (
+  outfit_id UUID REFERENCES outfits(id) ON DELETE CASCADE,
+  clothing_item_id UUID REFERENCES clothing_items(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  
+  PRIMARY KEY (outfit_id, clothing_item_id)
+);
+
+-- Outfit wears (one record each time a whole outfit is logged as worn)
+CREATE TABLE outfit_wears (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  outfit_id UUID REFERENCES outfits(id) ON DELETE SET NULL, -- keep the wears if the outfit is deleted
+  
+  date_worn DATE,
+  notes TEXT,
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Smart collections (saved searches and filters, evaluated against the current items)
+CREATE TABLE smart_collections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  
+  name VARCHAR(255) NOT NULL,
+  query TEXT NOT NULL DEFAULT '', -- search query, e.g. "dogwear -lastworn:>=thisyear"
+  filters JSONB NOT NULL DEFAULT '{}', -- item list filter chips (category, brand, color, flags)
+  sort VARCHAR(50) NOT NULL DEFAULT 'newest',
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Wear history table (track when items are worn)
 CREATE TABLE wear_history (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
   clothing_item_id UUID REFERENCES clothing_items(id) ON DELETE CASCADE,
+  outfit_wear_id UUID REFERENCES outfit_wears(id) ON DELETE CASCADE, -- set when logged as part of an outfit
   
   date_worn DATE, -- optional, can be null if just adding to count
   notes TEXT,
@@ -64,18 +181,81 @@ CREATE TABLE wear_history (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Maintenance log (repairs, alterations, re-soling and dry cleaning)
+CREATE TABLE maintenance_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  clothing_item_id UUID REFERENCES clothing_items(id) ON DELETE CASCADE,
+  
+  event_type maintenance_type NOT NULL,
+  event_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  cost DECIMAL(10,2),
+  notes TEXT,
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Trips (a destination and dates to plan a packing list for)
+CREATE TABLE trips (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  
+  destination VARCHAR(255) NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL CHECK (end_date >= start_date),
+  activities TEXT[] NOT NULL DEFAULT '{}', -- e.g. hiking, beach, dinner; see utils/packing.ts
+  brings_dog BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT,
+  wears_logged_at TIMESTAMP WITH TIME ZONE, -- set once the trip's wears are logged, so they are not logged twice
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Items on a trip's packing list
+CREATE TABLE trip_items (
+  trip_id UUID REFERENCES trips(id) ON DELETE CASCADE,
+  clothing_item_id UUID REFERENCES clothing_items(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  
+  packed BOOLEAN NOT NULL DEFAULT FALSE,
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  
+  PRIMARY KEY (trip_id, clothing_item_id)
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_clothing_items_user_id ON clothing_items(user_id);
 CREATE INDEX idx_clothing_items_category ON clothing_items(category);
 CREATE INDEX idx_clothing_items_times_worn ON clothing_items(times_worn);
 CREATE INDEX idx_clothing_items_dog_wear ON clothing_items(dog_wear);
+CREATE INDEX idx_clothing_items_status ON clothing_items(status);
+CREATE INDEX idx_clothing_items_laundry_state ON clothing_items(laundry_state);
 CREATE INDEX idx_wear_history_user_id ON wear_history(user_id);
 CREATE INDEX idx_wear_history_item_id ON wear_history(clothing_item_id);
 CREATE INDEX idx_wear_history_date ON wear_history(date_worn);
+CREATE INDEX idx_wear_history_outfit_wear_id ON wear_history(outfit_wear_id);
+CREATE INDEX idx_outfits_user_id ON outfits(user_id);
+CREATE INDEX idx_outfit_items_item_id ON outfit_items(clothing_item_id);
+CREATE INDEX idx_outfit_wears_outfit_id ON outfit_wears(outfit_id);
+CREATE INDEX idx_smart_collections_user_id ON smart_collections(user_id);
+CREATE INDEX idx_maintenance_events_user_id ON maintenance_events(user_id);
+CREATE INDEX idx_maintenance_events_item_id ON maintenance_events(clothing_item_id);
+CREATE INDEX idx_trips_user_id ON trips(user_id);
+CREATE INDEX idx_trip_items_item_id ON trip_items(clothing_item_id);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE clothing_items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE wear_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE outfits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE outfit_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE outfit_wears ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE maintenance_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trip_items ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies - Users can only access their own data
 CREATE POLICY "Users can view their own clothing items" ON clothing_items
@@ -102,6 +282,90 @@ CREATE POLICY "Users can update their own wear history" ON wear_history
 CREATE POLICY "Users can delete their own wear history" ON wear_history
   FOR DELETE USING (auth.uid() = user_id);
 
+CREATE POLICY "Users can view their own outfits" ON outfits
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own outfits" ON outfits
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own outfits" ON outfits
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own outfits" ON outfits
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own outfit items" ON outfit_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own outfit items" ON outfit_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own outfit items" ON outfit_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own outfit items" ON outfit_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own outfit wears" ON outfit_wears
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own outfit wears" ON outfit_wears
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own outfit wears" ON outfit_wears
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own outfit wears" ON outfit_wears
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own smart collections" ON smart_collections
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own smart collections" ON smart_collections
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own smart collections" ON smart_collections
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own smart collections" ON smart_collections
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own maintenance events" ON maintenance_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own maintenance events" ON maintenance_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own maintenance events" ON maintenance_events
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own maintenance events" ON maintenance_events
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own trips" ON trips
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own trips" ON trips
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own trips" ON trips
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own trips" ON trips
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own trip items" ON trip_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own trip items" ON trip_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own trip items" ON trip_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own trip items" ON trip_items
+  FOR DELETE USING (auth.uid() = user_id);
+
 -- Create a function to update the updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -111,21 +375,79 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
--- Create a function to update clothing item stats when wear history is added
+-- Whether a wear counts towards the next wash: worn after the wash day, or on the wash day
+-- but logged after the item was marked clean
+CREATE OR REPLACE FUNCTION counts_towards_wash(
+  date_worn DATE,
+  logged_at TIMESTAMP WITH TIME ZONE,
+  last_washed_date DATE,
+  last_washed_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN AS $$
+  SELECT date_worn IS NOT NULL AND (
+    last_washed_date IS NULL
+    OR date_worn > last_washed_date
+    OR (date_worn = last_washed_date AND (last_washed_at IS NULL OR logged_at >= last_washed_at))
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Create a function to keep clothing item stats in sync with wear history
 CREATE OR REPLACE FUNCTION update_clothing_item_stats()
 RETURNS TRIGGER AS $$
 BEGIN
   -- Update times_worn and last_worn_date when a new wear record is added
   IF TG_OP = 'INSERT' THEN
+    -- Backdated wears only move last_worn_date forward (GREATEST ignores NULLs)
     UPDATE clothing_items 
     SET 
       times_worn = times_worn + 1,
-      last_worn_date = CASE 
-        WHEN NEW.date_worn IS NOT NULL THEN NEW.date_worn 
-        ELSE last_worn_date 
-      END,
+      last_worn_date = GREATEST(last_worn_date, NEW.date_worn),
       updated_at = NOW()
     WHERE id = NEW.clothing_item_id;
+    
+    -- Dated wears since the last wash move a clean item to needs_wash once it reaches wears_before_wash
+    IF NEW.date_worn IS NOT NULL THEN
+      UPDATE clothing_items 
+      SET 
+        wears_since_wash = wears_since_wash + 1,
+        laundry_state = CASE 
+          WHEN laundry_state = 'clean' AND wears_since_wash + 1 >= wears_before_wash THEN 'needs_wash'
+          ELSE laundry_state
+        END
+      WHERE id = NEW.clothing_item_id
+      AND counts_towards_wash(NEW.date_worn, NEW.created_at, last_washed_date, last_washed_at);
+    END IF;
+    RETURN NEW;
+  END IF;
+  
+  -- Recompute last_worn_date and the wears since the last wash when a wear record's date is edited,
+  -- since the wear may have moved to the other side of the last wash
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.date_worn IS DISTINCT FROM OLD.date_worn THEN
+      UPDATE clothing_items ci
+      SET 
+        last_worn_date = (
+          SELECT MAX(date_worn) 
+          FROM wear_history 
+          WHERE clothing_item_id = NEW.clothing_item_id
+          AND date_worn IS NOT NULL
+        ),
+        wears_since_wash = since_wash.wears,
+        laundry_state = CASE 
+          WHEN ci.laundry_state = 'clean' AND since_wash.wears >= ci.wears_before_wash THEN 'needs_wash'
+          WHEN ci.laundry_state = 'needs_wash' AND since_wash.wears < ci.wears_before_wash THEN 'clean'
+          ELSE ci.laundry_state
+        END,
+        updated_at = NOW()
+      FROM (
+        SELECT COUNT(*)::INTEGER AS wears
+        FROM wear_history wh
+        JOIN clothing_items item ON item.id = wh.clothing_item_id
+        WHERE wh.clothing_item_id = NEW.clothing_item_id
+        AND counts_towards_wash(wh.date_worn, wh.created_at, item.last_washed_date, item.last_washed_at)
+      ) since_wash
+      WHERE ci.id = NEW.clothing_item_id;
+    END IF;
     RETURN NEW;
   END IF;
   
@@ -142,6 +464,19 @@ BEGIN
       ),
       updated_at = NOW()
     WHERE id = OLD.clothing_item_id;
+    
+    -- Take back a removed wear that counted towards the next wash
+    IF OLD.date_worn IS NOT NULL THEN
+      UPDATE clothing_items 
+      SET 
+        wears_since_wash = GREATEST(wears_since_wash - 1, 0),
+        laundry_state = CASE 
+          WHEN laundry_state = 'needs_wash' AND wears_since_wash - 1 < wears_before_wash THEN 'clean'
+          ELSE laundry_state
+        END
+      WHERE id = OLD.clothing_item_id
+      AND counts_towards_wash(OLD.date_worn, OLD.created_at, last_washed_date, last_washed_at);
+    END IF;
     RETURN OLD;
   END IF;
   
@@ -149,25 +484,79 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Keep an item's maintenance_cost equal to the total cost of its maintenance events
+CREATE OR REPLACE FUNCTION update_clothing_item_maintenance_cost()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE clothing_items 
+  SET 
+    maintenance_cost = (
+      SELECT COALESCE(SUM(cost), 0) 
+      FROM maintenance_events 
+      WHERE clothing_item_id = clothing_items.id
+    ),
+    updated_at = NOW()
+  -- OLD is NULL on insert and NEW on delete; an update may move the event to another item
+  WHERE id = OLD.clothing_item_id OR id = NEW.clothing_item_id;
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
 -- Create triggers
 CREATE TRIGGER update_clothing_items_updated_at 
   BEFORE UPDATE ON clothing_items 
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_outfits_updated_at 
+  BEFORE UPDATE ON outfits 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_smart_collections_updated_at 
+  BEFORE UPDATE ON smart_collections 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_maintenance_events_updated_at 
+  BEFORE UPDATE ON maintenance_events 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_trips_updated_at 
+  BEFORE UPDATE ON trips 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_clothing_item_stats_on_wear
-  AFTER INSERT OR DELETE ON wear_history
+  AFTER INSERT OR UPDATE OR DELETE ON wear_history
   FOR EACH ROW EXECUTE FUNCTION update_clothing_item_stats();
 
--- Create a view for clothing items with usage stats
-CREATE VIEW clothing_items_with_stats AS
+CREATE TRIGGER update_clothing_item_maintenance_cost_on_event
+  AFTER INSERT OR UPDATE OR DELETE ON maintenance_events
+  FOR EACH ROW EXECUTE FUNCTION update_clothing_item_maintenance_cost();
+
+-- Broadcast item and wear changes so other signed-in devices update live.
+-- RLS applies to inserts and updates, so each user only receives their own rows.
+-- Deletes are not checked against RLS: every subscriber receives them, with only the
+-- deleted row's id, so the app ignores ids it does not already have.
+ALTER PUBLICATION supabase_realtime ADD TABLE clothing_items, wear_history;
+
+-- Create a view for clothing items with usage stats.
+-- security_invoker makes the view apply the caller's RLS policies instead of the owner's.
+CREATE VIEW clothing_items_with_stats WITH (security_invoker = true) AS
 SELECT 
   ci.*,
   COALESCE(wh.total_wears, 0) as total_wears,
   wh.first_worn,
   wh.most_recent_wear,
+  -- Total cost of ownership: purchase price plus care and repairs, less resale income.
+  -- An item sold at a profit cost nothing to own.
+  CASE 
+    WHEN ci.purchase_price IS NOT NULL 
+    THEN GREATEST(ci.purchase_price + ci.maintenance_cost - COALESCE(ci.sale_price, 0), 0)
+    ELSE NULL 
+  END as total_cost_of_ownership,
+  -- times_worn also counts undated wears (e.g. entered when the item was added),
+  -- so this matches the cost per wear shown in the app.
   CASE 
-    WHEN ci.purchase_price IS NOT NULL AND COALESCE(wh.total_wears, 0) > 0 
-    THEN ci.purchase_price / COALESCE(wh.total_wears, 1)
+    WHEN ci.purchase_price IS NOT NULL AND ci.times_worn > 0 
+    THEN GREATEST(ci.purchase_price + ci.maintenance_cost - COALESCE(ci.sale_price, 0), 0) / ci.times_worn
     ELSE NULL 
   END as cost_per_wear
 FROM clothing_items ci
@@ -182,6 +571,68 @@ LEFT JOIN (
   GROUP BY clothing_item_id
 ) wh ON ci.id = wh.clothing_item_id;
 
+-- Wardrobe totals for the Overview screen, computed in one query instead of on the device.
+-- Only active items are counted unless include_inactive is set.
+-- Runs with the caller's permissions, so RLS limits it to the signed-in user's items.
+CREATE OR REPLACE FUNCTION get_wardrobe_stats(include_inactive BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (
+  total_items BIGINT,
+  total_times_worn BIGINT,
+  total_value NUMERIC,
+  total_maintenance_cost NUMERIC,
+  total_resale_income NUMERIC,
+  total_cost_of_ownership NUMERIC,
+  recently_added BIGINT,
+  category_counts JSONB,
+  most_worn_name VARCHAR(255),
+  most_worn_times_worn INTEGER
+) AS $$
+  -- Every total comes from the item's own columns, so wear_history is not joined in
+  WITH counted AS (
+    SELECT *
+    FROM clothing_items
+    WHERE include_inactive OR status = 'active'
+  )
+  SELECT
+    totals.total_items,
+    totals.total_times_worn,
+    totals.total_value,
+    totals.total_maintenance_cost,
+    totals.total_resale_income,
+    totals.total_cost_of_ownership,
+    totals.recently_added,
+    COALESCE(categories.category_counts, '{}'::jsonb),
+    most_worn.name,
+    most_worn.times_worn
+  FROM (
+    SELECT
+      COUNT(*) AS total_items,
+      COALESCE(SUM(times_worn), 0) AS total_times_worn,
+      COALESCE(SUM(purchase_price), 0) AS total_value,
+      -- Like the total cost of ownership, only items with a purchase price are counted
+      COALESCE(SUM(maintenance_cost) FILTER (WHERE purchase_price IS NOT NULL), 0) AS total_maintenance_cost,
+      COALESCE(SUM(sale_price) FILTER (WHERE purchase_price IS NOT NULL), 0) AS total_resale_income,
+      COALESCE(SUM(GREATEST(purchase_price + maintenance_cost - COALESCE(sale_price, 0), 0))
+        FILTER (WHERE purchase_price IS NOT NULL), 0) AS total_cost_of_ownership,
+      COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '30 days') AS recently_added
+    FROM counted
+  ) totals
+  CROSS JOIN (
+    SELECT jsonb_object_agg(category, item_count) AS category_counts
+    FROM (
+      SELECT category, COUNT(*) AS item_count
+      FROM counted
+      GROUP BY category
+    ) per_category
+  ) categories
+  LEFT JOIN LATERAL (
+    SELECT name, times_worn
+    FROM counted
+    ORDER BY times_worn DESC, created_at DESC
+    LIMIT 1
+  ) most_worn ON true;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
 -- Create storage bucket for clothing item images
 INSERT INTO storage.buckets (id, name, public) VALUES ('clothing-images', 'clothing-images', true);
 
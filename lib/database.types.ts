@@ -0,0 +1,504 @@
+/**
+ * Database types for the Supabase client, matching database/schema.sql.
+ * Laid out like the output of `supabase gen types typescript`, so this file can be
+ * regenerated from a project instead of edited by hand. Keep it in sync with the schema.
+ */
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      clothing_items: {
+        Row: {
+          id: string
+          user_id: string | null
+          name: string
+          category: Database['public']['Enums']['clothing_category']
+          subcategory: string | null
+          brand: string | null
+          color: string | null
+          pattern: string | null
+          material: string | null
+          care_wash_temperature: number | null
+          care_tumble_dry: boolean | null
+          care_dry_clean_only: boolean | null
+          care_iron: boolean | null
+          purchase_date: string | null
+          purchase_price: number | null
+          purchase_location: string | null
+          second_hand: boolean | null
+          dog_wear: boolean | null
+          warmth: Database['public']['Enums']['warmth_level'] | null
+          waterproof: boolean
+          times_worn: number | null
+          last_worn_date: string | null
+          laundry_state: Database['public']['Enums']['laundry_state']
+          wears_before_wash: number
+          wears_since_wash: number
+          last_washed_date: string | null
+          last_washed_at: string | null
+          status: Database['public']['Enums']['item_status']
+          status_date: string | null
+          sale_price: number | null
+          maintenance_cost: number
+          status_reason: string | null
+          declutter_decision: Database['public']['Enums']['declutter_decision'] | null
+          declutter_decided_at: string | null
+          image_urls: string[] | null
+          notes: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          name: string
+          category: Database['public']['Enums']['clothing_category']
+          subcategory?: string | null
+          brand?: string | null
+          color?: string | null
+          pattern?: string | null
+          material?: string | null
+          care_wash_temperature?: number | null
+          care_tumble_dry?: boolean | null
+          care_dry_clean_only?: boolean | null
+          care_iron?: boolean | null
+          purchase_date?: string | null
+          purchase_price?: number | null
+          purchase_location?: string | null
+          second_hand?: boolean | null
+          dog_wear?: boolean | null
+          warmth?: Database['public']['Enums']['warmth_level'] | null
+          waterproof?: boolean
+          times_worn?: number | null
+          last_worn_date?: string | null
+          laundry_state?: Database['public']['Enums']['laundry_state']
+          wears_before_wash?: number
+          wears_since_wash?: number
+          last_washed_date?: string | null
+          last_washed_at?: string | null
+          status?: Database['public']['Enums']['item_status']
+          status_date?: string | null
+          sale_price?: number | null
+          maintenance_cost?: number
+          status_reason?: string | null
+          declutter_decision?: Database['public']['Enums']['declutter_decision'] | null
+          declutter_decided_at?: string | null
+          image_urls?: string[] | null
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          name?: string
+          category?: Database['public']['Enums']['clothing_category']
+          subcategory?: string | null
+          brand?: string | null
+          color?: string | null
+          pattern?: string | null
+          material?: string | null
+          care_wash_temperature?: number | null
+          care_tumble_dry?: boolean | null
+          care_dry_clean_only?: boolean | null
+          care_iron?: boolean | null
+          purchase_date?: string | null
+          purchase_price?: number | null
+          purchase_location?: string | null
+          second_hand?: boolean | null
+          dog_wear?: boolean | null
+          warmth?: Database['public']['Enums']['warmth_level'] | null
+          waterproof?: boolean
+          times_worn?: number | null
+          last_worn_date?: string | null
+          laundry_state?: Database['public']['Enums']['laundry_state']
+          wears_before_wash?: number
+          wears_since_wash?: number
+          last_washed_date?: string | null
+          last_washed_at?: string | null
+          status?: Database['public']['Enums']['item_status']
+          status_date?: string | null
+          sale_price?: number | null
+          maintenance_cost?: number
+          status_reason?: string | null
+          declutter_decision?: Database['public']['Enums']['declutter_decision'] | null
+          declutter_decided_at?: string | null
+          image_urls?: string[] | null
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      outfits: {
+        Row: {
+          id: string
+          user_id: string | null
+          name: string
+          notes: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          name: string
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          name?: string
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      outfit_items: {
+        Row: {
+          outfit_id: string
+          clothing_item_id: string
+          user_id: string | null
+          created_at: string | null
+        }
+        Insert: {
+          outfit_id: string
+          clothing_item_id: string
+          user_id?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          outfit_id?: string
+          clothing_item_id?: string
+          user_id?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'outfit_items_outfit_id_fkey'
+            columns: ['outfit_id']
+            isOneToOne: false
+            referencedRelation: 'outfits'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'outfit_items_clothing_item_id_fkey'
+            columns: ['clothing_item_id']
+            isOneToOne: false
+            referencedRelation: 'clothing_items'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      outfit_wears: {
+        Row: {
+          id: string
+          user_id: string | null
+          outfit_id: string | null
+          date_worn: string | null
+          notes: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          outfit_id?: string | null
+          date_worn?: string | null
+          notes?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          outfit_id?: string | null
+          date_worn?: string | null
+          notes?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'outfit_wears_outfit_id_fkey'
+            columns: ['outfit_id']
+            isOneToOne: false
+            referencedRelation: 'outfits'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      smart_collections: {
+        Row: {
+          id: string
+          user_id: string | null
+          name: string
+          query: string
+          filters: Json
+          sort: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          name: string
+          query?: string
+          filters?: Json
+          sort?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          name?: string
+          query?: string
+          filters?: Json
+          sort?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      wear_history: {
+        Row: {
+          id: string
+          user_id: string | null
+          clothing_item_id: string | null
+          outfit_wear_id: string | null
+          date_worn: string | null
+          notes: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          clothing_item_id?: string | null
+          outfit_wear_id?: string | null
+          date_worn?: string | null
+          notes?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          clothing_item_id?: string | null
+          outfit_wear_id?: string | null
+          date_worn?: string | null
+          notes?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'wear_history_clothing_item_id_fkey'
+            columns: ['clothing_item_id']
+            isOneToOne: false
+            referencedRelation: 'clothing_items'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'wear_history_outfit_wear_id_fkey'
+            columns: ['outfit_wear_id']
+            isOneToOne: false
+            referencedRelation: 'outfit_wears'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      maintenance_events: {
+        Row: {
+          id: string
+          user_id: string | null
+          clothing_item_id: string | null
+          event_type: Database['public']['Enums']['maintenance_type']
+          event_date: string
+          cost: number | null
+          notes: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          clothing_item_id?: string | null
+          event_type: Database['public']['Enums']['maintenance_type']
+          event_date?: string
+          cost?: number | null
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          clothing_item_id?: string | null
+          event_type?: Database['public']['Enums']['maintenance_type']
+          event_date?: string
+          cost?: number | null
+          notes?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'maintenance_events_clothing_item_id_fkey'
+            columns: ['clothing_item_id']
+            isOneToOne: false
+            referencedRelation: 'clothing_items'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      trips: {
+        Row: {
+          id: string
+          user_id: string | null
+          destination: string
+          start_date: string
+          end_date: string
+          activities: string[]
+          brings_dog: boolean
+          notes: string | null
+          wears_logged_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          destination: string
+          start_date: string
+          end_date: string
+          activities?: string[]
+          brings_dog?: boolean
+          notes?: string | null
+          wears_logged_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          destination?: string
+          start_date?: string
+          end_date?: string
+          activities?: string[]
+          brings_dog?: boolean
+          notes?: string | null
+          wears_logged_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      trip_items: {
+        Row: {
+          trip_id: string
+          clothing_item_id: string
+          user_id: string | null
+          packed: boolean
+          created_at: string | null
+        }
+        Insert: {
+          trip_id: string
+          clothing_item_id: string
+          user_id?: string | null
+          packed?: boolean
+          created_at?: string | null
+        }
+        Update: {
+          trip_id?: string
+          clothing_item_id?: string
+          user_id?: string | null
+          packed?: boolean
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'trip_items_trip_id_fkey'
+            columns: ['trip_id']
+            isOneToOne: false
+            referencedRelation: 'trips'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'trip_items_clothing_item_id_fkey'
+            columns: ['clothing_item_id']
+            isOneToOne: false
+            referencedRelation: 'clothing_items'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+    }
+    Views: {
+      clothing_items_with_stats: {
+        Row: Database['public']['Tables']['clothing_items']['Row'] & {
+          total_wears: number | null
+          first_worn: string | null
+          most_recent_wear: string | null
+          total_cost_of_ownership: number | null
+          cost_per_wear: number | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      get_wardrobe_stats: {
+        Args: {
+          include_inactive?: boolean
+        }
+        Returns: {
+          total_items: number
+          total_times_worn: number
+          total_value: number
+          total_maintenance_cost: number
+          total_resale_income: number
+          total_cost_of_ownership: number
+          recently_added: number
+          category_counts: Json
+          most_worn_name: string | null
+          most_worn_times_worn: number | null
+        }[]
+      }
+    }
+    Enums: {
+      clothing_category:
+        | 'tops'
+        | 'bottoms'
+        | 'dresses_jumpsuits'
+        | 'shoes'
+        | 'accessories'
+        | 'outerwear'
+        | 'underwear'
+        | 'sleepwear'
+        | 'activewear'
+      laundry_state: 'clean' | 'needs_wash' | 'in_wash'
+      maintenance_type: 'repair' | 'alteration' | 'resole' | 'dry_cleaning' | 'other'
+      item_status: 'active' | 'retired' | 'sold' | 'donated' | 'lost'
+      declutter_decision: 'wear_soon' | 'keep'
+      warmth_level: 'light' | 'medium' | 'warm'
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database['public']
+
+export type TableName = keyof PublicSchema['Tables']
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
+export type Enums<T extends keyof PublicSchema['Enums']> = PublicSchema['Enums'][T]
@@ -0,0 +1,482 @@
+import { AppState, Platform } from 'react-native'
+import { PostgrestError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { Tables, TablesUpdate } from './database.types'
+import { storage } from './storage'
+import { laterDate } from '../utils/dates'
+
+/**
+ * Offline queue for wear logging and item edits.
+ * Writes that fail because there is no connection are kept in storage and
+ * replayed against Supabase once the connection returns.
+ * Each user has their own queue (see setQueueUser), so changes queued by one
+ * account are never sent with another account's session.
+ */
+
+export interface QueuedWear {
+  id: string // client-generated so a retried insert can be recognised
+  user_id: string
+  clothing_item_id: string
+  date_worn: string | null
+  notes?: string | null
+  outfit_wear_id?: string | null
+}
+
+export interface QueuedOutfitWear {
+  id: string // client-generated, so the outfit's item wears can refer to it before it is synced
+  user_id: string
+  outfit_id: string
+  date_worn: string
+}
+
+export type QueuedOperation =
+  | { id: string; type: 'wear'; wear: QueuedWear; queuedAt: string }
+  | { id: string; type: 'outfit_wear'; outfitWear: QueuedOutfitWear; queuedAt: string }
+  | { id: string; type: 'item_update'; itemId: string; changes: TablesUpdate<'clothing_items'>; queuedAt: string }
+
+export interface QueueResult {
+  success: boolean
+  queued: boolean
+  error?: string
+}
+
+const QUEUE_KEY_PREFIX = 'wardrobe-tracker.offline-queue'
+const SYNC_INTERVAL = 30 * 1000 // 30 seconds
+
+let queueUserId: string | null = null
+let queueCache: QueuedOperation[] | null = null
+let isFlushing = false
+const listeners = new Set<(queue: QueuedOperation[]) => void>()
+
+// RFC 4122 version 4 UUID; crypto.randomUUID is not available on every platform
+const generateId = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0
+    const value = char === 'x' ? random : (random & 0x3) | 0x8
+    return value.toString(16)
+  })
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message
+  if (typeof error === 'object' && error !== null && 'message' in error) return String(error.message)
+  return String(error ?? '')
+}
+
+/**
+ * Whether an error means the request never reached Supabase
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  /network request failed|failed to fetch|networkerror|load failed|network error/i.test(getErrorMessage(error))
+
+// Postgres rejected the data itself: class 22 (data exception) or 23 (integrity constraint
+// violation, e.g. a wear for an item that has been deleted). Sending it again can never succeed,
+// unlike auth, permission, server and timeout errors, which may pass on a later attempt.
+const isPermanentError = (error: unknown): boolean => {
+  const code = typeof error === 'object' && error !== null && 'code' in error ? String(error.code) : ''
+  return /^2[23]/.test(code)
+}
+
+const queueKey = (userId: string) => `${QUEUE_KEY_PREFIX}.${userId}`
+
+const loadQueue = async (): Promise<QueuedOperation[]> => {
+  const userId = queueUserId
+  if (!userId) return []
+  if (queueCache) return queueCache
+
+  let queue: QueuedOperation[] = []
+  try {
+    const stored = await storage.getItem(queueKey(userId))
+    queue = stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Error loading offline queue:', error)
+  }
+
+  // The user may have changed while the queue was read
+  if (userId !== queueUserId) return []
+  if (!queueCache) queueCache = queue
+  return queueCache
+}
+
+const saveQueue = async (queue: QueuedOperation[]): Promise<void> => {
+  const userId = queueUserId
+  if (!userId) return
+
+  queueCache = queue
+  listeners.forEach(listener => listener(queue))
+
+  try {
+    await storage.setItem(queueKey(userId), JSON.stringify(queue))
+  } catch (error) {
+    console.error('Error saving offline queue:', error)
+  }
+}
+
+/**
+ * Switch to the queue of the signed-in user, or to none when signed out.
+ * Another user's queue stays on the device and is synced when they sign in again.
+ */
+export function setQueueUser(userId: string | null): void {
+  if (userId === queueUserId) return
+
+  queueUserId = userId
+  queueCache = null
+  listeners.forEach(listener => listener([]))
+}
+
+/**
+ * Get the operations still waiting to be synced
+ */
+export async function getQueuedOperations(): Promise<QueuedOperation[]> {
+  return loadQueue()
+}
+
+/**
+ * Listen for changes to the queue (e.g. to show a pending count)
+ * @returns Function that removes the listener
+ */
+export function subscribeToQueue(listener: (queue: QueuedOperation[]) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Ignoring duplicates on the client id keeps retries from counting a wear twice
+const sendWears = (wears: QueuedWear[]) =>
+  supabase
+    .from('wear_history')
+    .upsert(wears, { onConflict: 'id', ignoreDuplicates: true })
+
+const sendOutfitWear = (outfitWear: QueuedOutfitWear) =>
+  supabase
+    .from('outfit_wears')
+    .upsert(outfitWear, { onConflict: 'id', ignoreDuplicates: true })
+
+/**
+ * Log one or more wears, queueing them locally if there is no connection
+ * @param wears - Wear rows without ids
+ * @param outfitWear - When the wears are a whole outfit, the outfit_wears row they belong to
+ * @returns Promise with the result; queued is true if the wears are waiting to sync
+ */
+export async function logWears(
+  wears: Omit<QueuedWear, 'id'>[],
+  outfitWear?: Omit<QueuedOutfitWear, 'id'>
+): Promise<QueueResult> {
+  const outfitRow = outfitWear ? { ...outfitWear, id: generateId() } : null
+  const rows = wears.map(wear => ({
+    ...wear,
+    id: generateId(),
+    ...(outfitRow ? { outfit_wear_id: outfitRow.id } : {}),
+  }))
+  let outfitWearSaved = false
+
+  try {
+    if (outfitRow) {
+      const { error } = await sendOutfitWear(outfitRow)
+      if (error) throw error
+      outfitWearSaved = true
+    }
+
+    const { error } = await sendWears(rows)
+    if (error) throw error
+
+    return { success: true, queued: false }
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      console.error('Error adding wears:', error)
+      // Don't leave an outfit wear behind without its item wears
+      if (outfitRow && outfitWearSaved) {
+        await supabase.from('outfit_wears').delete().eq('id', outfitRow.id)
+      }
+      return { success: false, queued: false, error: getErrorMessage(error) || 'Failed to add wear' }
+    }
+  }
+
+  if (!queueUserId) {
+    return { success: false, queued: false, error: 'Sign in to log wears offline' }
+  }
+
+  const queue = await loadQueue()
+  const queuedAt = new Date().toISOString()
+  await saveQueue([
+    ...queue,
+    // The outfit wear goes first, since its item wears refer to it
+    ...(outfitRow && !outfitWearSaved
+      ? [{ id: outfitRow.id, type: 'outfit_wear' as const, outfitWear: outfitRow, queuedAt }]
+      : []),
+    ...rows.map(wear => ({ id: wear.id, type: 'wear' as const, wear, queuedAt })),
+  ])
+
+  return { success: true, queued: true }
+}
+
+/**
+ * Update a clothing item, queueing the change locally if there is no connection
+ * @param itemId - Item to update
+ * @param changes - Columns to update
+ * @returns Promise with the result and the updated row when it was saved online
+ */
+export async function updateItemOrQueue(
+  itemId: string,
+  changes: TablesUpdate<'clothing_items'>
+): Promise<QueueResult & { data?: Tables<'clothing_items'> }> {
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items')
+      .update(changes)
+      .eq('id', itemId)
+      .select()
+
+    if (!error) {
+      return { success: true, queued: false, data: data?.[0] }
+    }
+
+    if (!isNetworkError(error)) {
+      console.error('Error updating item:', error)
+      return { success: false, queued: false, error: error.message }
+    }
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      console.error('Error updating item:', error)
+      return { success: false, queued: false, error: 'Failed to update item' }
+    }
+  }
+
+  if (!queueUserId) {
+    return { success: false, queued: false, error: 'Sign in to edit items offline' }
+  }
+
+  // Merge into an already queued edit of the same item so only the latest values are sent
+  const queue = await loadQueue()
+  const existing = queue.find(op => op.type === 'item_update' && op.itemId === itemId)
+  const queuedAt = new Date().toISOString()
+
+  await saveQueue(existing
+    ? queue.map(op =>
+        op === existing && op.type === 'item_update'
+          ? { ...op, changes: { ...op.changes, ...changes }, queuedAt }
+          : op
+      )
+    : [...queue, { id: generateId(), type: 'item_update', itemId, changes, queuedAt }]
+  )
+
+  return { success: true, queued: true }
+}
+
+// Consecutive wears are sent as one batch; outfit wears and item edits are sent one at a time
+const takeBatch = (queue: QueuedOperation[]): QueuedOperation[] => {
+  if (queue[0].type !== 'wear') {
+    return [queue[0]]
+  }
+
+  const firstOther = queue.findIndex(op => op.type !== 'wear')
+  return firstOther === -1 ? queue : queue.slice(0, firstOther)
+}
+
+const sendBatch = async (batch: QueuedOperation[]): Promise<PostgrestError | null> => {
+  const operation = batch[0]
+
+  if (operation.type === 'item_update') {
+    const { error } = await supabase
+      .from('clothing_items')
+      .update(operation.changes)
+      .eq('id', operation.itemId)
+    return error
+  }
+
+  if (operation.type === 'outfit_wear') {
+    const { error } = await sendOutfitWear(operation.outfitWear)
+    return error
+  }
+
+  const { error } = await sendWears(batch.flatMap(op => (op.type === 'wear' ? [op.wear] : [])))
+  return error
+}
+
+const trySend = async (batch: QueuedOperation[]): Promise<unknown> => {
+  try {
+    return await sendBatch(batch)
+  } catch (error) {
+    return error
+  }
+}
+
+/**
+ * Send one batch. When the server rejects a batch of wears for good, one of its rows is bad
+ * (e.g. its item was deleted meanwhile), so the wears are resent one at a time and only the
+ * ones that can never be saved are dropped.
+ * @returns The operations that are done with, sent or dropped, and the error that stopped
+ *   the rest, if any
+ */
+const sendOrDrop = async (
+  batch: QueuedOperation[],
+  userId: string
+): Promise<{ done: QueuedOperation[]; error: unknown }> => {
+  const error = await trySend(batch)
+  if (!error) {
+    return { done: batch, error: null }
+  }
+  if (!isPermanentError(error)) {
+    return { done: [], error }
+  }
+  if (batch.length === 1) {
+    console.error('Dropping a queued change that can never be saved:', error)
+    return { done: batch, error: null }
+  }
+
+  const done: QueuedOperation[] = []
+  for (const operation of batch) {
+    if (userId !== queueUserId) break
+
+    const operationError = await trySend([operation])
+    if (operationError && !isPermanentError(operationError)) {
+      return { done, error: operationError }
+    }
+    if (operationError) {
+      console.error('Dropping a queued change that can never be saved:', operationError)
+    }
+    done.push(operation)
+  }
+
+  return { done, error: null }
+}
+
+/**
+ * Send the signed-in user's queued operations to Supabase in the order they were made.
+ * Stops at the first failure that may pass later (offline, expired session, server error)
+ * and keeps the rest for the next attempt.
+ * @returns Promise with the number of operations that are still pending
+ */
+export async function flushQueue(): Promise<number> {
+  const userId = queueUserId
+  if (isFlushing || !userId) {
+    return (await loadQueue()).length
+  }
+
+  isFlushing = true
+  try {
+    let queue = await loadQueue()
+
+    while (queue.length > 0) {
+      const { done, error } = await sendOrDrop(takeBatch(queue), userId)
+
+      // Signed out or switched accounts while sending; the rest waits for that user
+      if (userId !== queueUserId) {
+        return (await loadQueue()).length
+      }
+
+      // Re-read the queue, since new operations may have been added while sending
+      if (done.length > 0) {
+        const doneIds = new Set(done.map(op => op.id))
+        queue = (await loadQueue()).filter(op => !doneIds.has(op.id))
+        await saveQueue(queue)
+      }
+
+      if (error) {
+        if (!isNetworkError(error)) {
+          console.error('Error syncing queued changes, will retry:', error)
+        }
+        break
+      }
+    }
+
+    return queue.length
+  } finally {
+    isFlushing = false
+  }
+}
+
+type WearStats = {
+  id: string
+  times_worn: number
+  last_worn_date?: string | null
+  laundry_state?: string
+  wears_before_wash?: number
+  wears_since_wash?: number
+  last_washed_date?: string | null
+}
+
+/**
+ * Count one more wear on an item the same way the wear_history trigger does,
+ * including the move to needs_wash once a clean item reaches its wears before wash
+ */
+export const addWearToStats = <T extends WearStats>(item: T, dateWorn: string | null): T => {
+  const updated = {
+    ...item,
+    times_worn: item.times_worn + 1,
+    last_worn_date: laterDate(item.last_worn_date, dateWorn),
+  }
+
+  const countsTowardsWash = item.wears_since_wash !== undefined && !!dateWorn &&
+    (!item.last_washed_date || dateWorn >= item.last_washed_date)
+  if (!countsTowardsWash) return updated
+
+  const wearsSinceWash = (item.wears_since_wash || 0) + 1
+  return {
+    ...updated,
+    wears_since_wash: wearsSinceWash,
+    laundry_state: item.laundry_state === 'clean' && wearsSinceWash >= (item.wears_before_wash || 1)
+      ? 'needs_wash'
+      : item.laundry_state,
+  }
+}
+
+/**
+ * Overlay queued wears and edits onto items fetched from Supabase
+ * so pending changes show up before they are synced
+ */
+export async function applyQueuedChanges<T extends WearStats>(items: T[]): Promise<T[]> {
+  const queue = await loadQueue()
+  if (queue.length === 0) return items
+
+  return items.map(item => {
+    let updated = { ...item }
+
+    for (const operation of queue) {
+      if (operation.type === 'wear' && operation.wear.clothing_item_id === item.id) {
+        updated = addWearToStats(updated, operation.wear.date_worn)
+      } else if (operation.type === 'item_update' && operation.itemId === item.id) {
+        updated = { ...updated, ...operation.changes } as T
+      }
+    }
+
+    return updated
+  })
+}
+
+/**
+ * Flush the queue now and whenever the app comes back online or to the foreground
+ * @returns Function that stops syncing
+ */
+export function startQueueSync(): () => void {
+  const flush = () => {
+    flushQueue().catch(error => console.error('Error syncing offline queue:', error))
+  }
+
+  flush()
+
+  const interval = setInterval(() => {
+    if (queueCache && queueCache.length > 0) {
+      flush()
+    }
+  }, SYNC_INTERVAL)
+
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      flush()
+    }
+  })
+
+  const isBrowser = Platform.OS === 'web' && typeof window !== 'undefined'
+  if (isBrowser) {
+    window.addEventListener('online', flush)
+  }
+
+  return () => {
+    clearInterval(interval)
+    appStateSubscription.remove()
+    if (isBrowser) {
+      window.removeEventListener('online', flush)
+    }
+  }
+}
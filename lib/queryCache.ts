@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * Shared in-memory cache for data that several screens show at once.
+ * Each query is stored under a key; every mounted screen using that key reads the same
+ * entry, so a write only has to update or invalidate the key once for all of them.
+ */
+
+export interface QueryState<T> {
+  data: T | undefined
+  error: string | null
+  isLoading: boolean // true until the first fetch finishes
+  refetch: () => Promise<void>
+}
+
+type QueryFetcher<T> = () => Promise<{ success: boolean; data?: T; error?: string }>
+
+interface CacheEntry {
+  data?: unknown
+  error: string | null
+  stale: boolean
+  request?: Promise<void>
+  fetcher?: QueryFetcher<unknown>
+}
+
+// Keys shared by the data layer and the offline queue.
+// Keys derived from the items start with "items:" so invalidating the items also reloads them.
+export const queryKeys = {
+  items: 'items',
+  stats: 'items:stats',
+  statsIncludingInactive: 'items:stats:all',
+  itemsWithStats: 'items:with-stats',
+  wears: (itemId: string) => `wears:${itemId}`,
+  wearCalendars: 'wears:calendar',
+  wearCalendar: (fromDate: string) => `wears:calendar:${fromDate}`,
+  maintenance: (itemId: string) => `maintenance:${itemId}`,
+}
+
+const entries = new Map<string, CacheEntry>()
+const listeners = new Map<string, Set<() => void>>()
+
+const getEntry = (key: string): CacheEntry => {
+  let entry = entries.get(key)
+  if (!entry) {
+    entry = { error: null, stale: true }
+    entries.set(key, entry)
+  }
+  return entry
+}
+
+const notify = (key: string) => {
+  listeners.get(key)?.forEach(listener => listener())
+}
+
+// Concurrent fetches of the same key share one request
+const fetchQuery = (key: string): Promise<void> => {
+  const entry = getEntry(key)
+  if (entry.request) return entry.request
+  if (!entry.fetcher) return Promise.resolve()
+
+  const fetcher = entry.fetcher
+  entry.stale = false
+  entry.request = fetcher()
+    .then(result => {
+      if (result.success) {
+        entry.data = result.data
+        entry.error = null
+      } else {
+        entry.error = result.error || 'Failed to load data'
+      }
+    })
+    .catch(error => {
+      console.error(`Error fetching ${key}:`, error)
+      entry.error = error?.message || 'Failed to load data'
+    })
+    .finally(() => {
+      entry.request = undefined
+      notify(key)
+
+      // Invalidated while the request was running, so the result may already be out of date
+      if (entry.stale && listeners.get(key)?.size) {
+        fetchQuery(key)
+      }
+    })
+
+  return entry.request
+}
+
+/**
+ * Read the cached value of a query without fetching it
+ */
+export function getQueryData<T>(key: string): T | undefined {
+  return entries.get(key)?.data as T | undefined
+}
+
+/**
+ * Read the cached values of every loaded query whose key starts with a prefix
+ */
+export function getQueriesData<T>(keyPrefix: string): T[] {
+  const values: T[] = []
+  entries.forEach((entry, key) => {
+    if ((key === keyPrefix || key.startsWith(`${keyPrefix}:`)) && entry.data !== undefined) {
+      values.push(entry.data as T)
+    }
+  })
+  return values
+}
+
+/**
+ * Change the cached value of a query and re-render every screen showing it.
+ * Does nothing if the query has not been loaded yet, since its first fetch will include the change.
+ */
+export function updateQueryData<T>(key: string, updater: (current: T) => T): void {
+  const entry = entries.get(key)
+  if (!entry || entry.data === undefined) return
+
+  entry.data = updater(entry.data as T)
+  notify(key)
+}
+
+/**
+ * Mark queries as out of date. Queries a screen is showing are refetched right away;
+ * the rest are refetched the next time a screen uses them.
+ * @param keyPrefix - Key to invalidate; also matches keys that start with `${keyPrefix}:`
+ */
+export function invalidateQueries(keyPrefix: string): void {
+  entries.forEach((entry, key) => {
+    if (key !== keyPrefix && !key.startsWith(`${keyPrefix}:`)) return
+
+    entry.stale = true
+    if (listeners.get(key)?.size) {
+      fetchQuery(key)
+    }
+  })
+}
+
+/**
+ * Forget a query entirely, e.g. after the record it describes was deleted
+ */
+export function removeQuery(key: string): void {
+  entries.delete(key)
+}
+
+/**
+ * Forget every query, e.g. when the user signs out
+ */
+export function clearQueryCache(): void {
+  entries.clear()
+}
+
+/**
+ * Use a cached query in a component. The first screen to use a key fetches it;
+ * screens mounted later get the cached value immediately.
+ * @param key - Cache key, or null to skip the query (e.g. while signed out)
+ * @param fetcher - Loads the data; called again when the key is invalidated
+ */
+export function useQuery<T>(key: string | null, fetcher: QueryFetcher<T>): QueryState<T> {
+  const [, setVersion] = useState(0)
+
+  if (key) {
+    // Always keep the latest fetcher, so a refetch uses the current closure
+    getEntry(key).fetcher = fetcher as QueryFetcher<unknown>
+  }
+
+  useEffect(() => {
+    if (!key) return
+
+    const listener = () => setVersion(version => version + 1)
+    if (!listeners.has(key)) listeners.set(key, new Set())
+    listeners.get(key)!.add(listener)
+
+    if (getEntry(key).stale) {
+      fetchQuery(key)
+    }
+
+    return () => {
+      listeners.get(key)?.delete(listener)
+    }
+  }, [key])
+
+  const refetch = useCallback(async () => {
+    if (key) await fetchQuery(key)
+  }, [key])
+
+  const entry = key ? entries.get(key) : undefined
+
+  return {
+    data: entry?.data as T | undefined,
+    error: entry?.error ?? null,
+    isLoading: !!key && (!entry || (entry.data === undefined && (entry.stale || !!entry.request))),
+    refetch,
+  }
+}
@@ -0,0 +1,85 @@
+import { supabase } from './supabase'
+import { Tables } from './database.types'
+import { invalidateQueries, queryKeys } from './queryCache'
+import { cacheItemRow, findCachedWearItemId, invalidateWearQueries, isCachedItem, removeCachedItem } from './wardrobe'
+
+/**
+ * Live updates from Supabase realtime, so changes made on another device (or another tab)
+ * show up without a refresh. Changes are written into the shared query cache.
+ * Item stats need no handling of their own: the wear_history trigger updates the
+ * clothing_items row, which arrives as an item update.
+ * Delete events only carry the row id and are not checked against RLS, so they arrive for
+ * every user's rows; only ids already in the cache are acted on.
+ */
+
+/**
+ * Listen for changes to the user's items and wears
+ * @param userId - Signed-in user
+ * @returns Function that stops listening
+ */
+export function subscribeToWardrobeChanges(userId: string): () => void {
+  const ownRows = `user_id=eq.${userId}`
+  let hasSubscribed = false
+
+  const channel = supabase
+    .channel(`wardrobe-changes:${userId}`)
+    .on<Tables<'clothing_items'>>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'clothing_items', filter: ownRows },
+      payload => {
+        cacheItemRow(payload.new)
+      }
+    )
+    .on<Tables<'clothing_items'>>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'clothing_items', filter: ownRows },
+      payload => {
+        cacheItemRow(payload.new)
+      }
+    )
+    // Deleted rows only carry their id, so delete events cannot be filtered by user
+    .on<Tables<'clothing_items'>>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'clothing_items' },
+      payload => {
+        if (payload.old.id && isCachedItem(payload.old.id)) removeCachedItem(payload.old.id)
+      }
+    )
+    .on<Tables<'wear_history'>>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'wear_history', filter: ownRows },
+      payload => {
+        if (payload.new.clothing_item_id) invalidateWearQueries(payload.new.clothing_item_id)
+      }
+    )
+    .on<Tables<'wear_history'>>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'wear_history', filter: ownRows },
+      payload => {
+        if (payload.new.clothing_item_id) invalidateWearQueries(payload.new.clothing_item_id)
+      }
+    )
+    // Only wears shown on a screen need reloading; their item's stats arrive as an item update
+    .on<Tables<'wear_history'>>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'wear_history' },
+      payload => {
+        const itemId = payload.old.id ? findCachedWearItemId(payload.old.id) : null
+        if (itemId) invalidateWearQueries(itemId)
+      }
+    )
+    .subscribe(status => {
+      if (status !== 'SUBSCRIBED') return
+
+      // Changes made while the connection was down were missed, so reload after reconnecting
+      if (hasSubscribed) {
+        invalidateQueries(queryKeys.items)
+        invalidateQueries('wears')
+      }
+      hasSubscribed = true
+    })
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
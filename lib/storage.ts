@@ -0,0 +1,24 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { Platform } from 'react-native'
+
+// Web-compatible storage fallback
+export const storage = Platform.OS === 'web' ? {
+  getItem: (key: string) => {
+    if (typeof window !== 'undefined') {
+      return Promise.resolve(window.localStorage.getItem(key))
+    }
+    return Promise.resolve(null)
+  },
+  setItem: (key: string, value: string) => {
+    if (typeof window !== 'undefined') {
+      return Promise.resolve(window.localStorage.setItem(key, value))
+    }
+    return Promise.resolve()
+  },
+  removeItem: (key: string) => {
+    if (typeof window !== 'undefined') {
+      return Promise.resolve(window.localStorage.removeItem(key))
+    }
+    return Promise.resolve()
+  },
+} : AsyncStorage
@@ -1,33 +1,12 @@
-import AsyncStorage from '@react-native-async-storage/async-storage'
 import { createClient } from '@supabase/supabase-js'
 import { Platform } from 'react-native'
+import { storage } from './storage'
+import { Database } from './database.types'
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!
 
-// Web-compatible storage fallback
-const storage = Platform.OS === 'web' ? {
-  getItem: (key: string) => {
-    if (typeof window !== 'undefined') {
-      return Promise.resolve(window.localStorage.getItem(key))
-    }
-    return Promise.resolve(null)
-  },
-  setItem: (key: string, value: string) => {
-    if (typeof window !== 'undefined') {
-      return Promise.resolve(window.localStorage.setItem(key, value))
-    }
-    return Promise.resolve()
-  },
-  removeItem: (key: string) => {
-    if (typeof window !== 'undefined') {
-      return Promise.resolve(window.localStorage.removeItem(key))
-    }
-    return Promise.resolve()
-  },
-} : AsyncStorage
-
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   auth: {
     storage,
     autoRefreshToken: true,
@@ -0,0 +1,756 @@
+import { supabase } from './supabase'
+import { Enums, Tables, TablesInsert, TablesUpdate } from './database.types'
+import {
+  QueueResult,
+  addWearToStats,
+  applyQueuedChanges,
+  getQueuedOperations,
+  logWears,
+  updateItemOrQueue,
+} from './offlineQueue'
+import {
+  getQueriesData,
+  getQueryData,
+  invalidateQueries,
+  queryKeys,
+  removeQuery,
+  updateQueryData,
+  useQuery,
+} from './queryCache'
+import { getTodayString } from '../utils/dates'
+
+/**
+ * Typed data access for clothing items, wear history and maintenance events.
+ * Screens use these functions instead of querying Supabase directly. Every function
+ * resolves to an ApiResult and logs failures, so callers only decide what to show the user.
+ * Writes also update the shared query cache, so every mounted screen shows the change.
+ */
+
+export type ClothingCategory = Enums<'clothing_category'>
+export type ItemStatus = Enums<'item_status'>
+export type LaundryState = Enums<'laundry_state'>
+
+// Columns with a default are never null in practice, so the app treats them as set
+export type ClothingItem = Omit<Tables<'clothing_items'>, 'second_hand' | 'dog_wear' | 'times_worn'> & {
+  second_hand: boolean
+  dog_wear: boolean
+  times_worn: number
+}
+
+// times_worn, last_worn_date and wears_since_wash are maintained by the wear_history trigger,
+// maintenance_cost by the maintenance_events trigger
+export type NewClothingItem = Omit<
+  TablesInsert<'clothing_items'>,
+  'id' | 'user_id' | 'times_worn' | 'last_worn_date' | 'wears_since_wash' | 'maintenance_cost'
+>
+export type ClothingItemChanges = TablesUpdate<'clothing_items'>
+
+// Row of the clothing_items_with_stats view
+export type ItemWithStats = ClothingItem & {
+  total_wears: number // dated wears only
+  first_worn: string | null
+  most_recent_wear: string | null
+  total_cost_of_ownership: number | null // purchase price plus care and repairs, less resale income
+  cost_per_wear: number | null
+}
+
+export type WearRecord = Tables<'wear_history'>
+// A wear on the calendar; pending wears are still waiting to sync and cannot be removed yet
+export type DatedWear = Pick<WearRecord, 'id' | 'clothing_item_id' | 'date_worn'> & { pending?: boolean }
+export type NewWearRecord = Omit<TablesInsert<'wear_history'>, 'user_id'>
+export type WearRecordChanges = Pick<TablesUpdate<'wear_history'>, 'date_worn' | 'notes'>
+
+export type MaintenanceType = Enums<'maintenance_type'>
+export type MaintenanceEvent = Tables<'maintenance_events'>
+export type NewMaintenanceEvent = Omit<TablesInsert<'maintenance_events'>, 'user_id'>
+
+export interface WardrobeStats {
+  totalItems: number
+  totalTimesWorn: number
+  totalValue: number // purchase prices
+  totalMaintenanceCost: number
+  totalResaleIncome: number
+  totalCostOfOwnership: number // purchase prices plus care and repairs, less resale income
+  categoryCounts: Record<string, number>
+  mostWornItem: {
+    name: string
+    times_worn: number
+  } | null
+  recentlyAdded: number // added in the last 30 days
+}
+
+export type ApiResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string }
+
+const WEAR_PAGE_SIZE = 1000 // Supabase's default maximum rows per request
+
+// Also used by the feature modules (e.g. trips), so every failure is logged and reported the same way
+export const ok = <T>(data: T): ApiResult<T> => ({ success: true, data })
+
+export const fail = <T>(action: string, error: unknown): ApiResult<T> => {
+  console.error(`Error ${action}:`, error)
+  const message = typeof error === 'object' && error !== null && 'message' in error ? String(error.message) : ''
+  return { success: false, error: message || `Failed ${action}` }
+}
+
+const toClothingItem = (row: Tables<'clothing_items'>): ClothingItem => ({
+  ...row,
+  second_hand: row.second_hand ?? false,
+  dog_wear: row.dog_wear ?? false,
+  times_worn: row.times_worn ?? 0,
+})
+
+// Any change to the items can change the totals, so the queries derived from them are reloaded too
+const updateCachedItems = (updater: (items: ClothingItem[]) => ClothingItem[]) => {
+  updateQueryData<ClothingItem[]>(queryKeys.items, updater)
+  invalidateQueries(queryKeys.stats)
+  invalidateQueries(queryKeys.itemsWithStats)
+}
+
+const replaceCachedItem = (item: ClothingItem) => {
+  updateCachedItems(items => items.map(cached => (cached.id === item.id ? item : cached)))
+}
+
+// Reload a single item whose stats were changed by the wear_history or maintenance_events trigger
+const refreshCachedItem = async (itemId: string) => {
+  const result = await getItem(itemId)
+  if (result.success) {
+    const [item] = await applyQueuedChanges([result.data])
+    replaceCachedItem(item)
+  }
+}
+
+/**
+ * Reload the wear lists that include an item's wears: its history and the calendar
+ */
+export function invalidateWearQueries(itemId: string): void {
+  invalidateQueries(queryKeys.wears(itemId))
+  invalidateQueries(queryKeys.wearCalendars)
+}
+
+// After a wear changed, reload its item's stats and its wear list
+const refreshWearCaches = async (itemId: string | null) => {
+  if (!itemId) return
+  invalidateWearQueries(itemId)
+  await refreshCachedItem(itemId)
+}
+
+/**
+ * Put an item row changed elsewhere, e.g. on another device, into the cached item list
+ */
+export async function cacheItemRow(row: Tables<'clothing_items'>): Promise<void> {
+  const [item] = await applyQueuedChanges([toClothingItem(row)])
+  updateCachedItems(items =>
+    items.some(cached => cached.id === item.id)
+      ? items.map(cached => (cached.id === item.id ? item : cached))
+      : [item, ...items]
+  )
+}
+
+/**
+ * Drop a deleted item, its wear list and its maintenance log from the cache
+ */
+export function removeCachedItem(itemId: string): void {
+  updateCachedItems(items => items.filter(item => item.id !== itemId))
+  removeQuery(queryKeys.wears(itemId))
+  removeQuery(queryKeys.maintenance(itemId))
+  invalidateQueries(queryKeys.wearCalendars)
+}
+
+/**
+ * Whether an item is in the cached item list
+ */
+export function isCachedItem(itemId: string): boolean {
+  return !!getQueryData<ClothingItem[]>(queryKeys.items)?.some(item => item.id === itemId)
+}
+
+/**
+ * The item of a wear shown in a cached wear list or calendar, or null if no screen has it
+ */
+export function findCachedWearItemId(wearId: string): string | null {
+  for (const wears of getQueriesData<Pick<WearRecord, 'id' | 'clothing_item_id'>[]>('wears')) {
+    const wear = wears.find(cached => cached.id === wearId)
+    if (wear) return wear.clothing_item_id
+  }
+  return null
+}
+
+/**
+ * Count new wears on the cached items, as the wear_history trigger does on the server,
+ * so screens update without refetching the item list
+ */
+export function addWearsToCache(wears: { clothing_item_id?: string | null; date_worn?: string | null }[]): void {
+  updateCachedItems(items => items.map(item =>
+    wears
+      .filter(wear => wear.clothing_item_id === item.id)
+      .reduce((updated, wear) => addWearToStats(updated, wear.date_worn ?? null), item)
+  ))
+
+  new Set(wears.map(wear => wear.clothing_item_id)).forEach(itemId => {
+    if (itemId) invalidateWearQueries(itemId)
+  })
+}
+
+/**
+ * The signed-in user's items, newest first, shared by every screen that shows them
+ */
+export const useItems = () => useQuery(queryKeys.items, () => listItems())
+
+/**
+ * The wears of an item, in the order of listWears
+ */
+export const useWears = (itemId: string) => useQuery(queryKeys.wears(itemId), () => listWears(itemId))
+
+/**
+ * Dated wears from a date onwards, for the wear calendar
+ */
+export const useWearCalendar = (fromDate: string) =>
+  useQuery(queryKeys.wearCalendar(fromDate), () => listWearsSince(fromDate))
+
+/**
+ * The maintenance log of an item, most recent first
+ */
+export const useMaintenance = (itemId: string) =>
+  useQuery(queryKeys.maintenance(itemId), () => listMaintenance(itemId))
+
+/**
+ * Wardrobe totals, reloaded whenever an item or wear changes
+ * @param includeInactive - Also count retired, sold, donated and lost items
+ */
+export const useWardrobeStats = (includeInactive = false) =>
+  useQuery(
+    includeInactive ? queryKeys.statsIncludingInactive : queryKeys.stats,
+    () => getWardrobeStats(includeInactive)
+  )
+
+/**
+ * Items with the usage stats of clothing_items_with_stats, reloaded whenever an item or wear changes
+ */
+export const useItemsWithStats = () => useQuery(queryKeys.itemsWithStats, listItemsWithStats)
+
+/**
+ * Wardrobe totals from the get_wardrobe_stats function, so Overview does not download every item.
+ * Wears still waiting to sync are added to the wear total.
+ * @param includeInactive - Also count items that are no longer active; by default only active items count
+ */
+export async function getWardrobeStats(includeInactive = false): Promise<ApiResult<WardrobeStats>> {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_wardrobe_stats', { include_inactive: includeInactive })
+      .single()
+
+    if (error) return fail('fetching wardrobe stats', error)
+
+    const queue = await getQueuedOperations()
+    const pendingWears = queue.filter(operation => operation.type === 'wear').length
+
+    return ok({
+      totalItems: Number(data.total_items),
+      totalTimesWorn: Number(data.total_times_worn) + pendingWears,
+      totalValue: Number(data.total_value),
+      totalMaintenanceCost: Number(data.total_maintenance_cost),
+      totalResaleIncome: Number(data.total_resale_income),
+      totalCostOfOwnership: Number(data.total_cost_of_ownership),
+      categoryCounts: (data.category_counts || {}) as Record<string, number>,
+      mostWornItem: data.most_worn_name !== null
+        ? { name: data.most_worn_name, times_worn: data.most_worn_times_worn ?? 0 }
+        : null,
+      recentlyAdded: Number(data.recently_added),
+    })
+  } catch (error) {
+    return fail('fetching wardrobe stats', error)
+  }
+}
+
+/**
+ * List the signed-in user's items, including wears and edits still waiting to sync
+ * @param options.orderBy - "created_at" (newest first, the default) or "name" (A-Z)
+ */
+export async function listItems(
+  options: { orderBy?: 'created_at' | 'name' } = {}
+): Promise<ApiResult<ClothingItem[]>> {
+  const orderBy = options.orderBy || 'created_at'
+
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items')
+      .select('*')
+      .order(orderBy, { ascending: orderBy === 'name' })
+
+    if (error) return fail('fetching items', error)
+
+    return ok(await applyQueuedChanges((data || []).map(toClothingItem)))
+  } catch (error) {
+    return fail('fetching items', error)
+  }
+}
+
+/**
+ * List the signed-in user's items from the clothing_items_with_stats view, newest first
+ */
+export async function listItemsWithStats(): Promise<ApiResult<ItemWithStats[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items_with_stats')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) return fail('fetching item stats', error)
+
+    return ok((data || []).map(row => ({
+      ...toClothingItem(row),
+      total_wears: row.total_wears ?? 0,
+      first_worn: row.first_worn,
+      most_recent_wear: row.most_recent_wear,
+      total_cost_of_ownership: row.total_cost_of_ownership,
+      cost_per_wear: row.cost_per_wear,
+    })))
+  } catch (error) {
+    return fail('fetching item stats', error)
+  }
+}
+
+/**
+ * The category, brand and subcategory of every item, for suggesting values already in use
+ */
+export async function listItemLabels(): Promise<
+  ApiResult<Pick<ClothingItem, 'category' | 'brand' | 'subcategory'>[]>
+> {
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items')
+      .select('category, brand, subcategory')
+
+    if (error) return fail('fetching item labels', error)
+
+    return ok(data || [])
+  } catch (error) {
+    return fail('fetching item labels', error)
+  }
+}
+
+/**
+ * Get a single item by id
+ */
+export async function getItem(itemId: string): Promise<ApiResult<ClothingItem>> {
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items')
+      .select('*')
+      .eq('id', itemId)
+      .single()
+
+    if (error) return fail('fetching item', error)
+
+    return ok(toClothingItem(data))
+  } catch (error) {
+    return fail('fetching item', error)
+  }
+}
+
+/**
+ * Create an item, optionally with a number of earlier wears that have no date.
+ * The wears are added as wear history so times_worn is backed by records.
+ * @param userId - Owner of the item
+ * @param item - Item columns
+ * @param initialWears - Number of undated wears to record
+ * @returns Promise with the created item
+ */
+export async function createItem(
+  userId: string,
+  item: NewClothingItem,
+  initialWears = 0
+): Promise<ApiResult<ClothingItem>> {
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items')
+      .insert({ ...item, user_id: userId, times_worn: 0 })
+      .select()
+      .single()
+
+    if (error) return fail('adding item', error)
+
+    let created = toClothingItem(data)
+
+    if (initialWears > 0) {
+      const wears = Array.from({ length: initialWears }, () => ({
+        clothing_item_id: created.id,
+        date_worn: null,
+      }))
+      const wearResult = await addWears(userId, wears)
+
+      // The item exists either way, so a failed wear insert is logged but not reported as a failure
+      if (wearResult.success) {
+        created = { ...created, times_worn: initialWears }
+      }
+    }
+
+    updateCachedItems(items => [created, ...items])
+    return ok(created)
+  } catch (error) {
+    return fail('adding item', error)
+  }
+}
+
+/**
+ * Create several items in one request, each with its own number of undated earlier wears
+ * (see createItem), e.g. for an import
+ * @param userId - Owner of the items
+ * @param items - Item columns and initial wear count of each item
+ * @returns Promise with the created items, in the order given
+ */
+export async function createItems(
+  userId: string,
+  items: { item: NewClothingItem; initialWears: number }[]
+): Promise<ApiResult<ClothingItem[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items')
+      .insert(items.map(({ item }) => ({ ...item, user_id: userId, times_worn: 0 })))
+      .select()
+
+    if (error) return fail('adding items', error)
+
+    let created = (data || []).map(toClothingItem)
+
+    const wears = created.flatMap((createdItem, index) =>
+      Array.from({ length: items[index].initialWears }, () => ({
+        clothing_item_id: createdItem.id,
+        date_worn: null,
+      }))
+    )
+
+    if (wears.length > 0) {
+      const wearResult = await addWears(userId, wears)
+
+      // The items exist either way, so a failed wear insert is logged but not reported as a failure
+      if (wearResult.success) {
+        created = created.map((createdItem, index) => ({ ...createdItem, times_worn: items[index].initialWears }))
+      }
+    }
+
+    updateCachedItems(cached => [...[...created].reverse(), ...cached])
+    return ok(created)
+  } catch (error) {
+    return fail('adding items', error)
+  }
+}
+
+/**
+ * Update an item's columns
+ * @returns Promise with the updated item
+ */
+export async function updateItem(
+  itemId: string,
+  changes: ClothingItemChanges
+): Promise<ApiResult<ClothingItem>> {
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items')
+      .update(changes)
+      .eq('id', itemId)
+      .select()
+      .single()
+
+    if (error) return fail('updating item', error)
+
+    const updated = toClothingItem(data)
+    replaceCachedItem(updated)
+    return ok(updated)
+  } catch (error) {
+    return fail('updating item', error)
+  }
+}
+
+/**
+ * Move several items to a laundry state at once, e.g. a whole load.
+ * Marking items clean also starts counting their wears again from today.
+ * @param itemIds - Items to update
+ * @param laundryState - New laundry state
+ */
+export async function updateLaundry(
+  itemIds: string[],
+  laundryState: LaundryState
+): Promise<ApiResult<ClothingItem[]>> {
+  const changes: ClothingItemChanges = laundryState === 'clean'
+    ? {
+        laundry_state: laundryState,
+        wears_since_wash: 0,
+        last_washed_date: getTodayString(),
+        last_washed_at: new Date().toISOString(),
+      }
+    : { laundry_state: laundryState }
+
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items')
+      .update(changes)
+      .in('id', itemIds)
+      .select()
+
+    if (error) return fail('updating laundry', error)
+
+    const updated = await applyQueuedChanges((data || []).map(toClothingItem))
+    const updatedById = new Map(updated.map(item => [item.id, item]))
+    updateCachedItems(items => items.map(item => updatedById.get(item.id) || item))
+    return ok(updated)
+  } catch (error) {
+    return fail('updating laundry', error)
+  }
+}
+
+/**
+ * Delete an item. Its wear history is removed by ON DELETE CASCADE; photos are not touched.
+ * Fails if no row was deleted, since RLS turns a delete of someone else's or an already
+ * deleted item into a silent no-op, and the caller must then keep the photos.
+ */
+export async function deleteItem(itemId: string): Promise<ApiResult<null>> {
+  try {
+    const { data, error } = await supabase
+      .from('clothing_items')
+      .delete()
+      .eq('id', itemId)
+      .select('id')
+
+    if (error) return fail('deleting item', error)
+    if (!data || data.length !== 1) return fail('deleting item', new Error('The item was not found'))
+
+    removeCachedItem(itemId)
+    return ok(null)
+  } catch (error) {
+    return fail('deleting item', error)
+  }
+}
+
+/**
+ * List the wears of an item, most recent date first and undated wears last
+ */
+export async function listWears(itemId: string): Promise<ApiResult<WearRecord[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('wear_history')
+      .select('*')
+      .eq('clothing_item_id', itemId)
+      .order('date_worn', { ascending: false, nullsFirst: false })
+      .order('created_at', { ascending: false })
+
+    if (error) return fail('fetching wear history', error)
+
+    return ok(data || [])
+  } catch (error) {
+    return fail('fetching wear history', error)
+  }
+}
+
+/**
+ * List every dated wear on or after a date, including wears still waiting to sync
+ * @param fromDate - First date as YYYY-MM-DD
+ */
+export async function listWearsSince(fromDate: string): Promise<ApiResult<DatedWear[]>> {
+  try {
+    const wears: DatedWear[] = []
+
+    // Page through, since a busy year has more wears than one response returns
+    for (let from = 0; ; from += WEAR_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('wear_history')
+        .select('id, clothing_item_id, date_worn')
+        .gte('date_worn', fromDate)
+        .order('date_worn', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + WEAR_PAGE_SIZE - 1)
+
+      if (error) return fail('fetching wear calendar', error)
+
+      wears.push(...(data || []))
+      if (!data || data.length < WEAR_PAGE_SIZE) break
+    }
+
+    const queue = await getQueuedOperations()
+    for (const operation of queue) {
+      if (operation.type === 'wear' && operation.wear.date_worn && operation.wear.date_worn >= fromDate) {
+        const { id, clothing_item_id, date_worn } = operation.wear
+        wears.push({ id, clothing_item_id, date_worn, pending: true })
+      }
+    }
+
+    return ok(wears)
+  } catch (error) {
+    return fail('fetching wear calendar', error)
+  }
+}
+
+/**
+ * Add wear records, in batches so imports and restores of long histories fit in a request.
+ * The stats trigger updates times_worn and last_worn_date.
+ * Use recordWears for wears logged by the user, so they survive a lost connection.
+ */
+export async function addWears(userId: string, wears: NewWearRecord[]): Promise<ApiResult<null>> {
+  try {
+    for (let start = 0; start < wears.length; start += WEAR_PAGE_SIZE) {
+      const { error } = await supabase
+        .from('wear_history')
+        .insert(wears.slice(start, start + WEAR_PAGE_SIZE).map(wear => ({ ...wear, user_id: userId })))
+
+      if (error) {
+        // Earlier batches were saved, so they are still counted
+        addWearsToCache(wears.slice(0, start))
+        return fail('adding wear history', error)
+      }
+    }
+
+    addWearsToCache(wears)
+    return ok(null)
+  } catch (error) {
+    return fail('adding wear history', error)
+  }
+}
+
+/**
+ * Change the date or note of a wear. The stats trigger recomputes last_worn_date.
+ */
+export async function updateWear(wearId: string, changes: WearRecordChanges): Promise<ApiResult<null>> {
+  try {
+    const { data, error } = await supabase
+      .from('wear_history')
+      .update(changes)
+      .eq('id', wearId)
+      .select('clothing_item_id')
+      .single()
+
+    if (error) return fail('updating wear', error)
+
+    await refreshWearCaches(data.clothing_item_id)
+    return ok(null)
+  } catch (error) {
+    return fail('updating wear', error)
+  }
+}
+
+/**
+ * Remove a wear. The stats trigger decrements times_worn and recomputes last_worn_date.
+ */
+export async function removeWear(wearId: string): Promise<ApiResult<null>> {
+  try {
+    const { data, error } = await supabase
+      .from('wear_history')
+      .delete()
+      .eq('id', wearId)
+      .select('clothing_item_id')
+      .single()
+
+    if (error) return fail('deleting wear', error)
+
+    await refreshWearCaches(data.clothing_item_id)
+    return ok(null)
+  } catch (error) {
+    return fail('deleting wear', error)
+  }
+}
+
+/**
+ * List an item's maintenance events, most recent first
+ */
+export async function listMaintenance(itemId: string): Promise<ApiResult<MaintenanceEvent[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('maintenance_events')
+      .select('*')
+      .eq('clothing_item_id', itemId)
+      .order('event_date', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) return fail('fetching maintenance log', error)
+
+    return ok(data || [])
+  } catch (error) {
+    return fail('fetching maintenance log', error)
+  }
+}
+
+// After a maintenance event changed, reload its log and the item's maintenance_cost
+const refreshMaintenanceCaches = async (itemId: string | null) => {
+  if (!itemId) return
+  invalidateQueries(queryKeys.maintenance(itemId))
+  await refreshCachedItem(itemId)
+}
+
+/**
+ * Record a repair, alteration, re-soling or dry cleaning
+ */
+export async function addMaintenanceEvent(
+  userId: string,
+  event: NewMaintenanceEvent
+): Promise<ApiResult<MaintenanceEvent>> {
+  try {
+    const { data, error } = await supabase
+      .from('maintenance_events')
+      .insert({ ...event, user_id: userId })
+      .select()
+      .single()
+
+    if (error) return fail('adding maintenance event', error)
+
+    await refreshMaintenanceCaches(data.clothing_item_id)
+    return ok(data)
+  } catch (error) {
+    return fail('adding maintenance event', error)
+  }
+}
+
+/**
+ * Delete a maintenance event
+ */
+export async function removeMaintenanceEvent(eventId: string): Promise<ApiResult<null>> {
+  try {
+    const { data, error } = await supabase
+      .from('maintenance_events')
+      .delete()
+      .eq('id', eventId)
+      .select('clothing_item_id')
+      .single()
+
+    if (error) return fail('deleting maintenance event', error)
+
+    await refreshMaintenanceCaches(data.clothing_item_id)
+    return ok(null)
+  } catch (error) {
+    return fail('deleting maintenance event', error)
+  }
+}
+
+/**
+ * Log wears from the user, kept on the device when offline (see logWears),
+ * and count them on every screen straight away
+ * @param outfitWear - When a whole outfit is worn, the outfit and date to record it under
+ */
+export async function recordWears(
+  userId: string,
+  wears: { clothing_item_id: string; date_worn: string | null }[],
+  outfitWear?: { outfit_id: string; date_worn: string }
+): Promise<QueueResult> {
+  const result = await logWears(
+    wears.map(wear => ({ ...wear, user_id: userId })),
+    outfitWear && { ...outfitWear, user_id: userId }
+  )
+  if (result.success) {
+    addWearsToCache(wears)
+  }
+  return result
+}
+
+/**
+ * Save edits to an item, kept on the device when offline (see updateItemOrQueue),
+ * and show them on every screen straight away
+ */
+export async function saveItemChanges(
+  itemId: string,
+  changes: ClothingItemChanges
+): Promise<QueueResult> {
+  const result = await updateItemOrQueue(itemId, changes)
+  if (result.success) {
+    updateCachedItems(items => items.map(item => (item.id === itemId ? ({ ...item, ...changes } as ClothingItem) : item)))
+  }
+  return result
+}
@@ -0,0 +1,99 @@
+/**
+ * Weather forecasts for outfit suggestions. Screens ask getWeatherProvider() for a forecast
+ * and never call a weather API directly, so any provider can stand in: the Open-Meteo provider
+ * when a location is configured, otherwise a fixed fixture for development and tests.
+ */
+
+export interface Forecast {
+  date: string // YYYY-MM-DD
+  minTemperature: number // °C
+  maxTemperature: number // °C
+  precipitation: number // expected rain or snow in mm
+  source: string // provider name, shown next to the forecast
+}
+
+export interface WeatherProvider {
+  name: string
+  getForecast: (date: string) => Promise<Forecast>
+}
+
+/**
+ * A provider that always returns the same weather, for development and tests
+ * @param weather - Temperatures and precipitation to return; defaults to a mild, dry day
+ */
+export const createFixtureWeatherProvider = (
+  weather: Partial<Pick<Forecast, 'minTemperature' | 'maxTemperature' | 'precipitation'>> = {}
+): WeatherProvider => ({
+  name: 'Sample weather',
+  getForecast: async (date: string) => ({
+    date,
+    minTemperature: weather.minTemperature ?? 9,
+    maxTemperature: weather.maxTemperature ?? 16,
+    precipitation: weather.precipitation ?? 0,
+    source: 'Sample weather',
+  }),
+})
+
+/**
+ * Daily forecasts from Open-Meteo, which needs no API key. Throws when the day has no
+ * temperatures, so screens show that there is no forecast instead of NaN degrees.
+ * @param latitude - Location to forecast, in decimal degrees
+ * @param longitude - Location to forecast, in decimal degrees
+ */
+export const createOpenMeteoProvider = (latitude: number, longitude: number): WeatherProvider => ({
+  name: 'Open-Meteo',
+  getForecast: async (date: string) => {
+    const params = new URLSearchParams({
+      latitude: String(latitude),
+      longitude: String(longitude),
+      daily: 'temperature_2m_min,temperature_2m_max,precipitation_sum',
+      timezone: 'auto',
+      start_date: date,
+      end_date: date,
+    })
+
+    const response = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`)
+    if (!response.ok) {
+      throw new Error(`Weather request failed with status ${response.status}`)
+    }
+
+    // Open-Meteo sends null for days or values it has no data for
+    const { daily } = await response.json()
+    const minTemperature: unknown = daily?.temperature_2m_min?.[0]
+    const maxTemperature: unknown = daily?.temperature_2m_max?.[0]
+    const precipitation: unknown = daily?.precipitation_sum?.[0]
+
+    if (typeof minTemperature !== 'number' || typeof maxTemperature !== 'number') {
+      throw new Error(`No forecast for ${date}`)
+    }
+
+    return {
+      date,
+      minTemperature,
+      maxTemperature,
+      precipitation: typeof precipitation === 'number' ? precipitation : 0,
+      source: 'Open-Meteo',
+    }
+  },
+})
+
+const latitude = Number(process.env.EXPO_PUBLIC_WEATHER_LATITUDE)
+const longitude = Number(process.env.EXPO_PUBLIC_WEATHER_LONGITUDE)
+const hasLocation = !!process.env.EXPO_PUBLIC_WEATHER_LATITUDE && !!process.env.EXPO_PUBLIC_WEATHER_LONGITUDE &&
+  Number.isFinite(latitude) && Number.isFinite(longitude)
+
+let provider: WeatherProvider = hasLocation
+  ? createOpenMeteoProvider(latitude, longitude)
+  : createFixtureWeatherProvider()
+
+/**
+ * The provider screens get their forecast from
+ */
+export const getWeatherProvider = (): WeatherProvider => provider
+
+/**
+ * Swap the forecast provider, e.g. for a fixture in tests or another weather API
+ */
+export const setWeatherProvider = (next: WeatherProvider): void => {
+  provider = next
+}
@@ -0,0 +1,483 @@
+import { supabase } from '../lib/supabase'
+import { Tables, TablesInsert } from '../lib/database.types'
+import { invalidateQueries, queryKeys } from '../lib/queryCache'
+import { ApiResult, addWears } from '../lib/wardrobe'
+import { fetchAllRows } from './export'
+import { saveTextFile, blobToDataUrl } from './files'
+import { deleteImagesByUrl, getFilePathFromUrl, uploadImage } from './imageUpload'
+import { getTodayString } from './dates'
+import { clearSuggestionsCache } from './suggestions'
+
+/**
+ * Full wardrobe backup: every item, wear, outfit and photo in one JSON file,
+ * which can be restored into any account or Supabase project.
+ */
+
+const BACKUP_FORMAT = 'wardrobe-tracker-backup'
+const BACKUP_VERSION = 1
+
+export interface BackupImage {
+  file_name: string
+  data_url: string // base64 data URL of the image file
+}
+
+export interface WardrobeBackup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  created_at: string
+  clothing_items: Tables<'clothing_items'>[]
+  wear_history: Tables<'wear_history'>[]
+  outfits: Tables<'outfits'>[]
+  outfit_items: Tables<'outfit_items'>[]
+  outfit_wears: Tables<'outfit_wears'>[]
+  smart_collections: Tables<'smart_collections'>[]
+  maintenance_events: Tables<'maintenance_events'>[]
+  trips: Tables<'trips'>[]
+  trip_items: Tables<'trip_items'>[]
+  images: Record<string, BackupImage> // keyed by the original public URL
+}
+
+export interface BackupResult {
+  success: boolean
+  itemCount?: number
+  wearCount?: number
+  imageCount?: number
+  missingImageCount?: number
+  error?: string
+}
+
+export interface RestoreSummary {
+  itemCount: number
+  wearCount: number
+  outfitCount: number
+  failedImageCount: number
+}
+
+const ITEM_BATCH_SIZE = 20
+const WEAR_BATCH_SIZE = 500
+
+// Columns that belong to the original account or are recreated on restore
+const omitIds = <T extends { id?: string; user_id: string | null }>({ id, user_id, ...row }: T) => row
+
+// Tables whose restored rows are removed again when a restore fails. Wears, maintenance events
+// and the item lists of outfits and trips are removed with their items.
+type RestoredTable = 'clothing_items' | 'outfits' | 'outfit_wears' | 'smart_collections' | 'trips'
+type RestoredIds = Record<RestoredTable, string[]>
+
+/**
+ * Download every item photo from the clothing-images bucket
+ * @returns Images keyed by URL and the number that could not be downloaded
+ */
+const downloadImages = async (
+  items: Tables<'clothing_items'>[],
+  onProgress?: (status: string) => void
+): Promise<{ images: Record<string, BackupImage>; missing: number }> => {
+  const urls: string[] = Array.from(new Set(items.flatMap(item => item.image_urls || [])))
+  const images: Record<string, BackupImage> = {}
+  let missing = 0
+
+  for (const [index, url] of urls.entries()) {
+    onProgress?.(`Downloading photo ${index + 1} of ${urls.length}...`)
+
+    const filePath = getFilePathFromUrl(url)
+    if (!filePath) {
+      missing++
+      continue
+    }
+
+    try {
+      const { data, error } = await supabase.storage
+        .from('clothing-images')
+        .download(filePath)
+
+      if (error || !data) {
+        console.error('Error downloading image:', error)
+        missing++
+        continue
+      }
+
+      images[url] = {
+        file_name: filePath.split('/').pop() || 'image.jpg',
+        data_url: await blobToDataUrl(data),
+      }
+    } catch (error) {
+      console.error('Error downloading image:', error)
+      missing++
+    }
+  }
+
+  return { images, missing }
+}
+
+/**
+ * Create a backup of the whole wardrobe, including photos, and save it as a JSON file
+ * @param onProgress - Called with a status message while the backup is built
+ * @returns Promise with backup result
+ */
+export const createBackup = async (
+  onProgress?: (status: string) => void
+): Promise<BackupResult> => {
+  try {
+    // Each table is ordered by its key and its row count checked, so no row is missed or repeated
+    onProgress?.('Fetching your wardrobe...')
+    const clothingItems = await fetchAllRows('clothing_items', ['created_at', 'id'])
+    const wearHistory = await fetchAllRows('wear_history', ['created_at', 'id'])
+    const outfits = await fetchAllRows('outfits', ['created_at', 'id'])
+    const outfitItems = await fetchAllRows('outfit_items', ['outfit_id', 'clothing_item_id'])
+    const outfitWears = await fetchAllRows('outfit_wears', ['created_at', 'id'])
+    const smartCollections = await fetchAllRows('smart_collections', ['created_at', 'id'])
+    const maintenanceEvents = await fetchAllRows('maintenance_events', ['created_at', 'id'])
+    const trips = await fetchAllRows('trips', ['created_at', 'id'])
+    const tripItems = await fetchAllRows('trip_items', ['trip_id', 'clothing_item_id'])
+
+    const { images, missing } = await downloadImages(clothingItems, onProgress)
+
+    const backup: WardrobeBackup = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      created_at: new Date().toISOString(),
+      clothing_items: clothingItems,
+      wear_history: wearHistory,
+      outfits,
+      outfit_items: outfitItems,
+      outfit_wears: outfitWears,
+      smart_collections: smartCollections,
+      maintenance_events: maintenanceEvents,
+      trips,
+      trip_items: tripItems,
+      images,
+    }
+
+    onProgress?.('Saving backup file...')
+    await saveTextFile(`wardrobe-backup-${getTodayString()}.json`, JSON.stringify(backup), 'application/json')
+
+    return {
+      success: true,
+      itemCount: clothingItems.length,
+      wearCount: wearHistory.length,
+      imageCount: Object.keys(images).length,
+      missingImageCount: missing,
+    }
+  } catch (error) {
+    console.error('Error creating backup:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create backup',
+    }
+  }
+}
+
+/**
+ * Parse and check a backup file
+ * @param text - Contents of a file written by createBackup
+ * @returns The backup, or an error message if the file is not a backup this app can read
+ */
+export const parseBackup = (text: string): { backup?: WardrobeBackup; error?: string } => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    return { error: 'The file is not valid JSON' }
+  }
+
+  const isBackup = typeof parsed === 'object' && parsed !== null &&
+    'format' in parsed && parsed.format === BACKUP_FORMAT &&
+    'clothing_items' in parsed && Array.isArray(parsed.clothing_items)
+  if (!isBackup) {
+    return { error: 'The file is not a wardrobe backup' }
+  }
+
+  // Tables added in later versions are missing from older backups
+  const backup = parsed as Partial<WardrobeBackup> & Pick<WardrobeBackup, 'format' | 'clothing_items'>
+
+  if ((backup.version ?? 0) > BACKUP_VERSION) {
+    return { error: 'The backup was made by a newer version of the app' }
+  }
+
+  return {
+    backup: {
+      ...backup,
+      version: backup.version ?? BACKUP_VERSION,
+      created_at: backup.created_at ?? '',
+      wear_history: backup.wear_history || [],
+      outfits: backup.outfits || [],
+      outfit_items: backup.outfit_items || [],
+      outfit_wears: backup.outfit_wears || [],
+      smart_collections: backup.smart_collections || [],
+      maintenance_events: backup.maintenance_events || [], // not in backups made before the maintenance log
+      trips: backup.trips || [], // not in backups made before trips
+      trip_items: backup.trip_items || [],
+      images: backup.images || {},
+    },
+  }
+}
+
+/**
+ * Insert rows and map each original id to the id of the new row.
+ * Rows are inserted in batches and Supabase returns them in insert order.
+ * The new ids are also added to restored, so a failed restore can remove them.
+ */
+const insertWithIdMap = async <T extends RestoredTable, O extends { id: string }>(
+  table: T,
+  originals: O[],
+  toRow: (original: O) => TablesInsert<T>,
+  batchSize: number,
+  restored: RestoredIds,
+  onBatch?: (insertedCount: number) => void
+): Promise<Map<string, string>> => {
+  const idMap = new Map<string, string>()
+
+  for (let start = 0; start < originals.length; start += batchSize) {
+    const batch = originals.slice(start, start + batchSize)
+
+    // The table is generic here, so Supabase cannot type the rows; toRow checks them instead
+    const { data, error } = await supabase
+      .from(table)
+      .insert(batch.map(toRow) as never)
+      .select('id')
+
+    if (error || !data) {
+      throw error || new Error(`Failed to restore ${table}`)
+    }
+
+    const inserted = data as unknown as { id: string }[]
+    restored[table].push(...inserted.map(row => row.id))
+    batch.forEach((original, index) => idMap.set(original.id, inserted[index].id))
+    onBatch?.(Math.min(start + batchSize, originals.length))
+  }
+
+  return idMap
+}
+
+/**
+ * Remove what a failed restore added, so the wardrobe is left as it was before the restore
+ * @returns Promise with whether everything could be removed
+ */
+const removeRestoredRows = async (restored: RestoredIds, imageUrls: string[]): Promise<boolean> => {
+  let complete = true
+
+  // Outfit wears outlive their outfit, so they are removed first; items go last and take
+  // their wears, maintenance events and outfit and trip entries with them
+  const tables: RestoredTable[] = ['outfit_wears', 'outfits', 'trips', 'smart_collections', 'clothing_items']
+  for (const table of tables) {
+    const ids = restored[table]
+    for (let start = 0; start < ids.length; start += WEAR_BATCH_SIZE) {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .in('id', ids.slice(start, start + WEAR_BATCH_SIZE))
+
+      if (error) {
+        console.error(`Error removing restored ${table}:`, error)
+        complete = false
+      }
+    }
+  }
+
+  if ((await deleteImagesByUrl(imageUrls)) > 0) {
+    complete = false
+  }
+
+  return complete
+}
+
+/**
+ * Restore a backup into the signed in user's wardrobe.
+ * Photos are uploaded again, so the restored items do not depend on the original project.
+ * Restored rows are added next to any existing items; nothing is overwritten.
+ * If any step fails, everything the restore added is removed again.
+ * @param userId - Owner of the restored rows
+ * @param backup - Backup from parseBackup
+ * @param onProgress - Called with a status message while restoring
+ * @returns Promise with what was restored
+ */
+export const restoreBackup = async (
+  userId: string,
+  backup: WardrobeBackup,
+  onProgress?: (status: string) => void
+): Promise<ApiResult<RestoreSummary>> => {
+  const restored: RestoredIds = {
+    clothing_items: [],
+    outfits: [],
+    outfit_wears: [],
+    smart_collections: [],
+    trips: [],
+  }
+  const uploadedImageUrls: string[] = []
+  let failedImageCount = 0
+
+  try {
+    const items = backup.clothing_items
+
+    // Upload the photos again and point image_urls at the new copies
+    const restoredImageUrls = new Map<string, string[]>()
+    for (const [index, item] of items.entries()) {
+      const urls: string[] = []
+
+      for (const url of item.image_urls || []) {
+        const image = backup.images[url]
+        if (!image) {
+          failedImageCount++
+          continue
+        }
+
+        const extension = image.file_name.split('.').pop() || 'jpg'
+        const result = await uploadImage(
+          image.data_url,
+          userId,
+          `restored_${Date.now()}_${index}_${urls.length}.${extension}`
+        )
+
+        if (result.success && result.url) {
+          urls.push(result.url)
+          uploadedImageUrls.push(result.url)
+        } else {
+          failedImageCount++
+        }
+      }
+
+      restoredImageUrls.set(item.id, urls)
+      onProgress?.(`Restoring photos for item ${index + 1} of ${items.length}...`)
+    }
+
+    // The wear_history trigger adds one wear per restored record, so start each
+    // item at the count that was not backed by history
+    const historyCounts = new Map<string, number>()
+    for (const wear of backup.wear_history) {
+      if (!wear.clothing_item_id) continue
+      historyCounts.set(wear.clothing_item_id, (historyCounts.get(wear.clothing_item_id) || 0) + 1)
+    }
+
+    const itemIds = await insertWithIdMap(
+      'clothing_items',
+      items,
+      item => ({
+        ...omitIds(item),
+        user_id: userId,
+        image_urls: restoredImageUrls.get(item.id) || [],
+        times_worn: Math.max((item.times_worn || 0) - (historyCounts.get(item.id) || 0), 0),
+        wears_since_wash: 0, // recounted by the trigger from the restored wears since the last wash
+        maintenance_cost: 0, // added up again by the trigger as the maintenance log is restored
+      }),
+      ITEM_BATCH_SIZE,
+      restored,
+      count => onProgress?.(`Restoring items ${count} of ${items.length}...`)
+    )
+
+    onProgress?.('Restoring outfits...')
+    const outfitIds = await insertWithIdMap(
+      'outfits',
+      backup.outfits,
+      outfit => ({ ...omitIds(outfit), user_id: userId }),
+      ITEM_BATCH_SIZE,
+      restored
+    )
+
+    const outfitItems = backup.outfit_items.flatMap(outfitItem => {
+      const outfitId = outfitIds.get(outfitItem.outfit_id)
+      const itemId = itemIds.get(outfitItem.clothing_item_id)
+      return outfitId && itemId
+        ? [{ ...omitIds(outfitItem), user_id: userId, outfit_id: outfitId, clothing_item_id: itemId }]
+        : []
+    })
+
+    if (outfitItems.length > 0) {
+      const { error } = await supabase.from('outfit_items').insert(outfitItems)
+      if (error) throw error
+    }
+
+    const outfitWearIds = await insertWithIdMap(
+      'outfit_wears',
+      backup.outfit_wears,
+      outfitWear => ({
+        ...omitIds(outfitWear),
+        user_id: userId,
+        outfit_id: outfitWear.outfit_id ? outfitIds.get(outfitWear.outfit_id) || null : null,
+      }),
+      WEAR_BATCH_SIZE,
+      restored
+    )
+
+    await insertWithIdMap(
+      'smart_collections',
+      backup.smart_collections,
+      collection => ({ ...omitIds(collection), user_id: userId }),
+      ITEM_BATCH_SIZE,
+      restored
+    )
+
+    const maintenanceEvents = backup.maintenance_events.flatMap(event => {
+      const itemId = event.clothing_item_id ? itemIds.get(event.clothing_item_id) : undefined
+      return itemId ? [{ ...omitIds(event), user_id: userId, clothing_item_id: itemId }] : []
+    })
+
+    if (maintenanceEvents.length > 0) {
+      const { error } = await supabase.from('maintenance_events').insert(maintenanceEvents)
+      if (error) throw error
+    }
+
+    const tripIds = await insertWithIdMap(
+      'trips',
+      backup.trips,
+      trip => ({ ...omitIds(trip), user_id: userId }),
+      ITEM_BATCH_SIZE,
+      restored
+    )
+
+    const tripItems = backup.trip_items.flatMap(tripItem => {
+      const tripId = tripIds.get(tripItem.trip_id)
+      const itemId = itemIds.get(tripItem.clothing_item_id)
+      return tripId && itemId
+        ? [{ ...omitIds(tripItem), user_id: userId, trip_id: tripId, clothing_item_id: itemId }]
+        : []
+    })
+
+    if (tripItems.length > 0) {
+      const { error } = await supabase.from('trip_items').insert(tripItems)
+      if (error) throw error
+    }
+
+    // Wear history keeps its original dates, notes and outfit links
+    const wears = backup.wear_history.flatMap(wear => {
+      const itemId = wear.clothing_item_id ? itemIds.get(wear.clothing_item_id) : undefined
+      return itemId
+        ? [{
+            ...omitIds(wear),
+            clothing_item_id: itemId,
+            outfit_wear_id: wear.outfit_wear_id ? outfitWearIds.get(wear.outfit_wear_id) || null : null,
+          }]
+        : []
+    })
+
+    onProgress?.(`Restoring ${wears.length} wears...`)
+    const wearResult = await addWears(userId, wears)
+    if (!wearResult.success) throw new Error(wearResult.error)
+
+    return {
+      success: true,
+      data: {
+        itemCount: itemIds.size,
+        wearCount: wears.length,
+        outfitCount: outfitIds.size,
+        failedImageCount,
+      },
+    }
+  } catch (error) {
+    console.error('Error restoring backup:', error)
+    onProgress?.('Undoing the restore...')
+    const removed = await removeRestoredRows(restored, uploadedImageUrls)
+    const message = error instanceof Error || (typeof error === 'object' && error !== null && 'message' in error)
+      ? String(error.message)
+      : 'Failed to restore backup'
+
+    return {
+      success: false,
+      error: removed
+        ? `${message}. Nothing was restored.`
+        : `${message}. Some restored items could not be removed again.`,
+    }
+  } finally {
+    clearSuggestionsCache()
+    invalidateQueries(queryKeys.items)
+  }
+}
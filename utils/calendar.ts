@@ -0,0 +1,65 @@
+import { addDays, getTodayString } from './dates'
+
+/**
+ * Helpers for the wear calendar heatmap
+ */
+
+export const HEATMAP_WEEKS = 53
+export const HEAT_LEVELS = 4
+
+/**
+ * Monday of the week containing a YYYY-MM-DD date
+ */
+export const startOfWeek = (dateString: string): string => {
+  const date = new Date(`${dateString}T00:00:00`)
+  const daysSinceMonday = (date.getDay() + 6) % 7
+  return addDays(dateString, -daysSinceMonday)
+}
+
+/**
+ * Columns of the heatmap: one array of seven dates (Monday first) per week,
+ * ending with the week that contains endDate. Days after endDate are null.
+ */
+export const buildHeatmapWeeks = (endDate: string, weekCount = HEATMAP_WEEKS): (string | null)[][] => {
+  const firstMonday = addDays(startOfWeek(endDate), -7 * (weekCount - 1))
+
+  return Array.from({ length: weekCount }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => {
+      const date = addDays(firstMonday, week * 7 + day)
+      return date > endDate ? null : date
+    })
+  )
+}
+
+/**
+ * Number of wears logged on each date
+ */
+export const countWearsByDate = (wears: { date_worn: string | null }[]): Record<string, number> => {
+  const counts: Record<string, number> = {}
+  for (const wear of wears) {
+    if (wear.date_worn) {
+      counts[wear.date_worn] = (counts[wear.date_worn] || 0) + 1
+    }
+  }
+  return counts
+}
+
+/**
+ * Shade of a heatmap cell, from 0 (nothing logged) to HEAT_LEVELS (the busiest day)
+ */
+export const getHeatLevel = (count: number, maxCount: number): number => {
+  if (count <= 0 || maxCount <= 0) return 0
+  return Math.max(1, Math.ceil((count / maxCount) * HEAT_LEVELS))
+}
+
+/**
+ * Short month name for a heatmap column, e.g. "Mar"
+ */
+export const formatMonthLabel = (dateString: string): string =>
+  new Date(`${dateString}T00:00:00`).toLocaleDateString('en-GB', { month: 'short' })
+
+/**
+ * First date shown by a heatmap ending today
+ */
+export const getHeatmapStartDate = (today = getTodayString()): string =>
+  buildHeatmapWeeks(today)[0][0] as string
@@ -0,0 +1,125 @@
+import { supabase } from '../lib/supabase'
+import { Json } from '../lib/database.types'
+import { ApiResult, fail, ok } from '../lib/wardrobe'
+import { FilterableItem, ItemFilters, ItemSort, applyItemFilters, emptyFilters, sortOptions } from './itemFilters'
+import { SearchableItem, searchItems } from './search'
+
+/**
+ * Smart collections are saved searches. Only the query, filters and sort order are stored,
+ * so a collection always reflects the current state of the items.
+ */
+export interface SmartCollection {
+  id: string
+  name: string
+  query: string
+  filters: ItemFilters
+  sort: ItemSort
+  created_at: string
+}
+
+const isItemSort = (value: string): value is ItemSort => sortOptions.some(option => option.key === value)
+
+// The column takes any JSON, and filters saved by older versions may lack newer keys
+const parseFilters = (json: Json): ItemFilters => {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return emptyFilters
+  }
+
+  const text = (value: Json | undefined) => (typeof value === 'string' ? value : null)
+  return {
+    category: text(json.category),
+    brand: text(json.brand),
+    color: text(json.color),
+    secondHand: json.secondHand === true,
+    dogWear: json.dogWear === true,
+    neverWorn: json.neverWorn === true,
+    inactive: json.inactive === true,
+  }
+}
+
+/**
+ * Fetch the signed-in user's smart collections
+ * @returns Promise with collections ordered by name
+ */
+export async function fetchCollections(): Promise<ApiResult<SmartCollection[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('smart_collections')
+      .select('id, name, query, filters, sort, created_at')
+      .order('name', { ascending: true })
+
+    if (error) return fail('fetching collections', error)
+
+    return ok((data || []).map(collection => ({
+      id: collection.id,
+      name: collection.name,
+      query: collection.query || '',
+      filters: parseFilters(collection.filters),
+      sort: isItemSort(collection.sort) ? collection.sort : 'newest',
+      created_at: collection.created_at || '',
+    })))
+  } catch (error) {
+    return fail('fetching collections', error)
+  }
+}
+
+/**
+ * Create a new smart collection or update an existing one
+ * @param userId - Owner of the collection
+ * @param collection - Collection fields; pass an id to update
+ */
+export async function saveCollection(
+  userId: string,
+  collection: { id?: string; name: string; query: string; filters: ItemFilters; sort: ItemSort }
+): Promise<ApiResult<null>> {
+  try {
+    const collectionData = {
+      user_id: userId,
+      name: collection.name.trim(),
+      query: collection.query.trim(),
+      filters: { ...collection.filters },
+      sort: collection.sort,
+    }
+
+    const { error } = collection.id
+      ? await supabase.from('smart_collections').update(collectionData).eq('id', collection.id)
+      : await supabase.from('smart_collections').insert(collectionData)
+
+    if (error) return fail('saving collection', error)
+
+    return ok(null)
+  } catch (error) {
+    return fail('saving collection', error)
+  }
+}
+
+/**
+ * Delete a smart collection. The items in it are not affected.
+ */
+export async function deleteCollection(collectionId: string): Promise<ApiResult<null>> {
+  try {
+    const { error } = await supabase
+      .from('smart_collections')
+      .delete()
+      .eq('id', collectionId)
+
+    if (error) return fail('deleting collection', error)
+
+    return ok(null)
+  } catch (error) {
+    return fail('deleting collection', error)
+  }
+}
+
+/**
+ * The items currently in a collection, in the collection's sort order
+ */
+export function applyCollection<T extends FilterableItem & SearchableItem>(
+  items: T[],
+  collection: Pick<SmartCollection, 'query' | 'filters' | 'sort'>
+): T[] {
+  return applyItemFilters(searchItems(items, collection.query), {
+    filters: collection.filters,
+    sort: collection.sort,
+  })
+}
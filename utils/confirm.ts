@@ -0,0 +1,34 @@
+import { Alert, Platform } from 'react-native'
+
+/**
+ * Ask the user to confirm a destructive action.
+ * Alert.alert has no buttons on react-native-web, so fall back to window.confirm there.
+ * @param title - Dialog title
+ * @param message - Explanation of what will happen
+ * @param confirmText - Label for the confirming button
+ * @returns Promise resolving to true if the user confirmed
+ */
+export const confirmAction = (
+  title: string,
+  message: string,
+  confirmText = 'Delete'
+): Promise<boolean> => {
+  if (Platform.OS === 'web') {
+    if (typeof window === 'undefined') {
+      return Promise.resolve(false)
+    }
+    return Promise.resolve(window.confirm(`${title}\n\n${message}`))
+  }
+
+  return new Promise(resolve => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: confirmText, style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    )
+  })
+}
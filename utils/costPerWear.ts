@@ -0,0 +1,126 @@
+import { storage } from '../lib/storage'
+import { isActiveItem } from './itemFilters'
+
+/**
+ * Cost per wear analytics: rankings, breakdowns and a personal target
+ */
+
+// Fields the analytics read, as returned by clothing_items_with_stats
+export interface CostPerWearItem {
+  id: string
+  name: string
+  category: string
+  brand?: string | null
+  second_hand: boolean
+  status: string
+  purchase_price?: number | null
+  sale_price?: number | null
+  times_worn: number
+  total_cost_of_ownership: number | null
+  cost_per_wear: number | null
+}
+
+export type CostPerWearGrouping = 'category' | 'brand' | 'second_hand'
+
+export interface CostPerWearGroup {
+  key: string
+  itemCount: number
+  totalSpent: number // total cost of ownership: purchases and care, less resale income
+  totalWears: number
+  costPerWear: number | null // total spent divided by total wears, null before the first wear
+}
+
+export const DEFAULT_TARGET_COST_PER_WEAR = 50
+const TARGET_KEY = 'wardrobe-tracker.cost-per-wear-target'
+
+// A price of 0 (a gift or a swap) still counts, as in getTotalCostOfOwnership
+const hasPrice = (item: CostPerWearItem) => item.purchase_price != null
+
+const ownershipCost = (item: CostPerWearItem) => item.total_cost_of_ownership || 0
+
+/**
+ * Worn items with a price, ordered from best (lowest) to worst (highest) cost per wear
+ */
+export const rankByCostPerWear = <T extends CostPerWearItem>(items: T[]): T[] =>
+  items
+    .filter(item => item.cost_per_wear !== null && hasPrice(item))
+    .sort((a, b) => (a.cost_per_wear as number) - (b.cost_per_wear as number))
+
+/**
+ * Cost per wear for groups of items. Only items with a price are counted,
+ * and a group's cost per wear weighs every wear equally.
+ * @param items - Items to group
+ * @param grouping - Group by category, brand or second-hand vs new
+ * @returns Groups ordered from lowest to highest cost per wear, never-worn groups last
+ */
+export const groupCostPerWear = (
+  items: CostPerWearItem[],
+  grouping: CostPerWearGrouping
+): CostPerWearGroup[] => {
+  const groups = new Map<string, CostPerWearGroup>()
+
+  for (const item of items.filter(hasPrice)) {
+    const key = grouping === 'second_hand'
+      ? (item.second_hand ? 'second_hand' : 'new')
+      : (item[grouping] || '')
+
+    const group = groups.get(key) || { key, itemCount: 0, totalSpent: 0, totalWears: 0, costPerWear: null }
+    group.itemCount += 1
+    group.totalSpent += ownershipCost(item)
+    group.totalWears += item.times_worn
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      costPerWear: group.totalWears > 0 ? group.totalSpent / group.totalWears : null,
+    }))
+    .sort((a, b) => {
+      if (a.costPerWear === null) return b.costPerWear === null ? b.totalSpent - a.totalSpent : 1
+      if (b.costPerWear === null) return -1
+      return a.costPerWear - b.costPerWear
+    })
+}
+
+/**
+ * Active items whose cost per wear is still above the target, most expensive first.
+ * Priced items that have never been worn are included unless they cost nothing.
+ */
+export const itemsAboveTarget = <T extends CostPerWearItem>(items: T[], target: number): T[] =>
+  items
+    .filter(item => isActiveItem(item) && hasPrice(item) && (item.cost_per_wear === null
+      ? ownershipCost(item) > 0
+      : item.cost_per_wear > target))
+    .sort((a, b) => ownershipCost(b) - ownershipCost(a))
+
+/**
+ * How many more wears an item needs before its cost per wear reaches the target
+ */
+export const wearsToReachTarget = (item: CostPerWearItem, target: number): number =>
+  Math.max(Math.ceil(ownershipCost(item) / target) - item.times_worn, 0)
+
+/**
+ * Load the target cost per wear saved by the user
+ */
+export const loadTargetCostPerWear = async (): Promise<number> => {
+  try {
+    const stored = await storage.getItem(TARGET_KEY)
+    const target = stored ? Number(stored) : NaN
+    return target > 0 ? target : DEFAULT_TARGET_COST_PER_WEAR
+  } catch (error) {
+    console.error('Error loading cost per wear target:', error)
+    return DEFAULT_TARGET_COST_PER_WEAR
+  }
+}
+
+/**
+ * Save the target cost per wear so it is kept between sessions
+ */
+export const saveTargetCostPerWear = async (target: number): Promise<void> => {
+  try {
+    await storage.setItem(TARGET_KEY, String(target))
+  } catch (error) {
+    console.error('Error saving cost per wear target:', error)
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * CSV helpers (RFC 4180: comma separated, double quotes escaped by doubling)
+ */
+
+export type CsvValue = string | number | boolean | null | undefined | string[]
+
+// Spreadsheet apps run text starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Escape a single value for use in a CSV cell.
+ * Arrays are joined with " | " so they stay in one cell.
+ * Text that a spreadsheet would run as a formula gets a leading ' (see unescapeCsvFormula).
+ */
+export const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return ''
+
+  let text = Array.isArray(value) ? value.join(' | ') : String(value)
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Remove the leading ' that escapeCsvValue adds to formula-like text, so exported files import unchanged
+ */
+export const unescapeCsvFormula = (text: string): string =>
+  text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text
+
+/**
+ * Build a CSV document from rows of objects
+ * @param rows - Rows to write
+ * @param columns - Column order; defaults to every key found in the rows
+ * @returns CSV text with a header row
+ */
+export const toCsv = (rows: Record<string, CsvValue>[], columns?: string[]): string => {
+  const header = columns || Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+
+  const lines = [
+    header.map(escapeCsvValue).join(','),
+    ...rows.map(row => header.map(column => escapeCsvValue(row[column])).join(',')),
+  ]
+
+  return lines.join('\r\n')
+}
+
+/**
+ * Parse CSV text into rows of cells.
+ * Handles quoted cells containing commas, quotes and line breaks; blank lines are skipped.
+ * @param text - CSV document
+ * @returns Array of rows, each an array of cell strings
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark written by some spreadsheet apps
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      row.push(cell)
+      if (row.some(value => value.trim() !== '')) {
+        rows.push(row)
+      }
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  row.push(cell)
+  if (row.some(value => value.trim() !== '')) {
+    rows.push(row)
+  }
+
+  return rows
+}
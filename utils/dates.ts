@@ -0,0 +1,83 @@
+/**
+ * Date helpers for the YYYY-MM-DD strings stored in DATE columns
+ */
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD format
+ */
+export const isValidDateString = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false
+  }
+
+  const date = new Date(`${value}T00:00:00`)
+  return !isNaN(date.getTime()) && toDateString(date) === value
+}
+
+/**
+ * Format a Date as YYYY-MM-DD using the local calendar day
+ */
+export const toDateString = (date: Date): string => {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Format a stored date for display, e.g. "2024-03-09"
+ */
+export const formatDisplayDate = (dateString?: string | null, fallback = 'Never'): string => {
+  if (!dateString) return fallback
+  const date = new Date(dateString)
+  return date.toLocaleDateString('sv-SE') // Swedish date format
+}
+
+/**
+ * Today's date as YYYY-MM-DD in the local timezone
+ */
+export const getTodayString = (): string => toDateString(new Date())
+
+/**
+ * Move a YYYY-MM-DD date by a number of days
+ */
+export const addDays = (dateString: string, days: number): string => {
+  const date = new Date(`${dateString}T00:00:00`)
+  date.setDate(date.getDate() + days)
+  return toDateString(date)
+}
+
+/**
+ * Move a YYYY-MM-DD date by a number of months, keeping to the last day of shorter months
+ */
+export const addMonths = (dateString: string, months: number): string => {
+  const date = new Date(`${dateString}T00:00:00`)
+  const day = date.getDate()
+  date.setDate(1)
+  date.setMonth(date.getMonth() + months)
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+  date.setDate(Math.min(day, lastDay))
+  return toDateString(date)
+}
+
+/**
+ * Return the later of two optional YYYY-MM-DD dates
+ */
+export const laterDate = (a?: string | null, b?: string | null): string | null => {
+  if (!a) return b || null
+  if (!b) return a
+  return a > b ? a : b
+}
+
+/**
+ * Describe a date relative to today, e.g. "Today", "Yesterday" or "Sat 2024-03-09"
+ */
+export const formatRelativeDate = (dateString: string): string => {
+  const today = getTodayString()
+  if (dateString === today) return 'Today'
+  if (dateString === addDays(today, -1)) return 'Yesterday'
+
+  const date = new Date(`${dateString}T00:00:00`)
+  const weekday = date.toLocaleDateString('en-GB', { weekday: 'short' })
+  return `${weekday} ${formatDisplayDate(dateString)}`
+}
@@ -0,0 +1,145 @@
+import { storage } from '../lib/storage'
+import { addDays, addMonths } from './dates'
+import { isActiveItem } from './itemFilters'
+
+/**
+ * Declutter assistant: finds forgotten items and remembers what was decided about them.
+ * Retiring an item sets its lifecycle status, so only wear soon and keep are stored as decisions.
+ */
+
+// Fields the declutter screen reads from an item
+export interface DeclutterItem {
+  id: string
+  category: string
+  purchase_date?: string | null
+  purchase_price?: number | null
+  times_worn: number
+  last_worn_date?: string | null
+  created_at?: string | null
+  status: string
+  declutter_decision?: 'wear_soon' | 'keep' | null
+  declutter_decided_at?: string | null
+}
+
+export type ForgottenReason = 'never_worn' | 'not_worn_recently'
+
+export interface ForgottenItem<T extends DeclutterItem> {
+  item: T
+  reason: ForgottenReason
+  since: string // last wear, or when the item was bought or added if it was never worn
+}
+
+export interface ForgottenGroup<T extends DeclutterItem> {
+  category: string
+  items: ForgottenItem<T>[]
+  tiedUpValue: number // purchase price of the group's items
+}
+
+export const DECLUTTER_MONTH_OPTIONS = [3, 6, 12, 24]
+export const DEFAULT_DECLUTTER_MONTHS = 12
+const MONTHS_KEY = 'wardrobe-tracker.declutter-months'
+
+// Keep and wear soon decisions last until the next clean-out, which happens twice a year
+export const DECISION_VALID_DAYS = 182
+
+// A new item gets a month to be worn before it counts as never worn
+const NEVER_WORN_GRACE_DAYS = 30
+
+// When the item arrived in the wardrobe, as YYYY-MM-DD
+const ownedSince = (item: DeclutterItem): string | null =>
+  item.purchase_date || (item.created_at ? item.created_at.slice(0, 10) : null)
+
+/**
+ * Whether a keep or wear soon decision still applies. Decisions from an earlier
+ * clean-out expire, so the item comes up for review again.
+ */
+export const isDecisionCurrent = (item: DeclutterItem, today: string): boolean => {
+  if (!item.declutter_decision) return false
+  return !!item.declutter_decided_at && item.declutter_decided_at > addDays(today, -DECISION_VALID_DAYS)
+}
+
+/**
+ * Why an item counts as forgotten, or null if it does not.
+ * Never-worn items count once they are a month old; worn items once their last wear
+ * (or, for wears without a date, the day they were added) is more than `months` ago.
+ */
+export const getForgottenReason = (
+  item: DeclutterItem,
+  months: number,
+  today: string
+): ForgottenItem<DeclutterItem> | null => {
+  const owned = ownedSince(item)
+
+  if (item.times_worn === 0) {
+    if (!owned || owned > addDays(today, -NEVER_WORN_GRACE_DAYS)) return null
+    return { item, reason: 'never_worn', since: owned }
+  }
+
+  const since = item.last_worn_date || owned
+  if (!since || since >= addMonths(today, -months)) return null
+  return { item, reason: 'not_worn_recently', since }
+}
+
+/**
+ * Active forgotten items that still need a decision, grouped by category.
+ * Groups are ordered by the money tied up in them; within a group, the longest forgotten come first.
+ */
+export const groupForgottenItems = <T extends DeclutterItem>(
+  items: T[],
+  months: number,
+  today: string
+): ForgottenGroup<T>[] => {
+  const groups = new Map<string, ForgottenGroup<T>>()
+
+  for (const item of items) {
+    if (!isActiveItem(item) || isDecisionCurrent(item, today)) continue
+
+    const forgotten = getForgottenReason(item, months, today) as ForgottenItem<T> | null
+    if (!forgotten) continue
+
+    const group = groups.get(item.category) || { category: item.category, items: [], tiedUpValue: 0 }
+    group.items.push(forgotten)
+    group.tiedUpValue += item.purchase_price || 0
+    groups.set(item.category, group)
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, items: group.items.sort((a, b) => a.since.localeCompare(b.since)) }))
+    .sort((a, b) => b.tiedUpValue - a.tiedUpValue || b.items.length - a.items.length)
+}
+
+/**
+ * Items marked to wear soon that have not been worn since the decision
+ */
+export const itemsToWearSoon = <T extends DeclutterItem>(items: T[], today: string): T[] =>
+  items.filter(item =>
+    item.declutter_decision === 'wear_soon' &&
+    isActiveItem(item) &&
+    isDecisionCurrent(item, today) &&
+    !(item.last_worn_date && item.declutter_decided_at && item.last_worn_date >= item.declutter_decided_at)
+  )
+
+/**
+ * Load how many months without a wear make an item forgotten
+ */
+export const loadDeclutterMonths = async (): Promise<number> => {
+  try {
+    const stored = await storage.getItem(MONTHS_KEY)
+    const months = stored ? Number(stored) : NaN
+    return DECLUTTER_MONTH_OPTIONS.includes(months) ? months : DEFAULT_DECLUTTER_MONTHS
+  } catch (error) {
+    console.error('Error loading declutter period:', error)
+    return DEFAULT_DECLUTTER_MONTHS
+  }
+}
+
+/**
+ * Save the declutter period so it is kept between sessions
+ */
+export const saveDeclutterMonths = async (months: number): Promise<void> => {
+  try {
+    await storage.setItem(MONTHS_KEY, String(months))
+  } catch (error) {
+    console.error('Error saving declutter period:', error)
+  }
+}
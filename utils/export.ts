@@ -0,0 +1,91 @@
+import { supabase } from '../lib/supabase'
+import { TableName, Tables } from '../lib/database.types'
+import { toCsv } from './csv'
+import { saveTextFile } from './files'
+import { getTodayString } from './dates'
+
+export interface ExportResult {
+  success: boolean
+  itemCount?: number
+  wearCount?: number
+  error?: string
+}
+
+// Supabase returns at most 1000 rows per request, so page through larger tables
+const PAGE_SIZE = 1000
+
+/**
+ * Fetch every row of a table the user can see, page by page
+ * @param table - Table name
+ * @param orderBy - Columns to order by; they must identify a row, so pages are stable
+ * @returns Promise with all rows
+ * @throws If the number of rows read does not match the table's row count, e.g. because
+ *   rows were added or removed between pages
+ */
+export const fetchAllRows = async <T extends TableName>(
+  table: T,
+  orderBy: (keyof Tables<T> & string)[]
+): Promise<Tables<T>[]> => {
+  const rows: Tables<T>[] = []
+  let expectedCount: number | null = null
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    // Count on the first page only, to check the pages added up to the whole table
+    let query = supabase.from(table).select('*', from === 0 ? { count: 'exact' } : undefined)
+    for (const column of orderBy) {
+      query = query.order(column, { ascending: true })
+    }
+
+    const { data, error, count } = await query.range(from, from + PAGE_SIZE - 1).returns<Tables<T>[]>()
+
+    if (error) {
+      throw error
+    }
+
+    if (from === 0) {
+      expectedCount = count
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) {
+      if (expectedCount !== null && rows.length !== expectedCount) {
+        throw new Error(`Read ${rows.length} of ${expectedCount} rows from ${table}. Please try again.`)
+      }
+      return rows
+    }
+  }
+}
+
+/**
+ * Export the whole wardrobe as two CSV files: clothing items and wear history
+ * @returns Promise with export result
+ */
+export const exportWardrobeCsv = async (): Promise<ExportResult> => {
+  try {
+    const items = await fetchAllRows('clothing_items', ['created_at', 'id'])
+    const wears = await fetchAllRows('wear_history', ['created_at', 'id'])
+
+    // Add the item name so the wear sheet is readable on its own
+    const itemNames = new Map(items.map(item => [item.id, item.name]))
+    const wearRows = wears.map(wear => ({
+      ...wear,
+      item_name: (wear.clothing_item_id && itemNames.get(wear.clothing_item_id)) ?? null,
+    }))
+
+    const date = getTodayString()
+    await saveTextFile(`wardrobe-items-${date}.csv`, toCsv(items), 'text/csv')
+    await saveTextFile(`wardrobe-wear-history-${date}.csv`, toCsv(wearRows), 'text/csv')
+
+    return {
+      success: true,
+      itemCount: items.length,
+      wearCount: wears.length,
+    }
+  } catch (error) {
+    console.error('Error exporting wardrobe:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export wardrobe',
+    }
+  }
+}
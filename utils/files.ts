@@ -0,0 +1,80 @@
+import { Platform } from 'react-native'
+import * as FileSystem from 'expo-file-system'
+import * as Sharing from 'expo-sharing'
+import * as DocumentPicker from 'expo-document-picker'
+
+/**
+ * Save a text file for the user.
+ * On web the browser downloads it; on native it is written to the document
+ * directory and the share sheet is opened so it can be sent or saved elsewhere.
+ * @param fileName - Name of the file, including extension
+ * @param content - File contents
+ * @param mimeType - MIME type, e.g. "text/csv"
+ */
+export const saveTextFile = async (
+  fileName: string,
+  content: string,
+  mimeType: string
+): Promise<void> => {
+  if (Platform.OS === 'web') {
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+    return
+  }
+
+  const fileUri = `${FileSystem.documentDirectory}${fileName}`
+  await FileSystem.writeAsStringAsync(fileUri, content, {
+    encoding: FileSystem.EncodingType.UTF8,
+  })
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: fileName })
+  }
+}
+
+/**
+ * Let the user pick a file and read it as text
+ * @param mimeTypes - Accepted MIME types
+ * @returns Promise with the file name and contents, or null if cancelled
+ */
+export const pickTextFile = async (
+  mimeTypes: string[]
+): Promise<{ name: string; content: string } | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+  })
+
+  if (result.canceled || !result.assets[0]) {
+    return null
+  }
+
+  const asset = result.assets[0]
+
+  // On web the picked file is exposed as a blob URL that fetch can read
+  const content = Platform.OS === 'web'
+    ? await (await fetch(asset.uri)).text()
+    : await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 })
+
+  return { name: asset.name, content }
+}
+
+/**
+ * Read a blob (e.g. a file downloaded from storage) as a base64 data URL
+ * @param blob - Blob to read
+ * @returns Promise with a "data:<type>;base64,..." string
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
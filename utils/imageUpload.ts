@@ -25,7 +25,7 @@ export const uploadImage = async (
     
     // Generate a unique filename if none provided
     const timestamp = Date.now()
-    const fileExtension = uri.split('.').pop() || 'jpg'
+    const fileExtension = (fileName || uri).split('.').pop() || 'jpg'
     const finalFileName = fileName || `image_${timestamp}.${fileExtension}`
     
     // Create the storage path: userId/filename
@@ -35,9 +35,12 @@ export const uploadImage = async (
     // For React Native, read the file as base64 and convert to ArrayBuffer
     console.log('Reading file as base64...')
     
-    const base64 = await FileSystem.readAsStringAsync(uri, {
-      encoding: FileSystem.EncodingType.Base64,
-    })
+    // Data URIs (e.g. images restored from a backup) already carry the base64 data
+    const base64 = uri.startsWith('data:')
+      ? uri.slice(uri.indexOf(',') + 1)
+      : await FileSystem.readAsStringAsync(uri, {
+          encoding: FileSystem.EncodingType.Base64,
+        })
     
     console.log('Converting base64 to ArrayBuffer...')
     const arrayBuffer = decode(base64)
@@ -151,3 +154,27 @@ export const getFilePathFromUrl = (url: string): string | null => {
     return null
   }
 }
+
+/**
+ * Delete every image referenced by a list of public storage URLs
+ * @param urls - Public URLs as stored in image_urls
+ * @returns Promise with the number of images that could not be deleted
+ */
+export const deleteImagesByUrl = async (urls: string[]): Promise<number> => {
+  let failed = 0
+
+  for (const url of urls) {
+    const filePath = getFilePathFromUrl(url)
+    if (!filePath) {
+      failed++
+      continue
+    }
+
+    const deleted = await deleteImage(filePath)
+    if (!deleted) {
+      failed++
+    }
+  }
+
+  return failed
+}
@@ -0,0 +1,186 @@
+import { ApiResult, NewClothingItem, createItems } from '../lib/wardrobe'
+import { parseCsv, unescapeCsvFormula } from './csv'
+import { isValidDateString } from './dates'
+import { clearSuggestionsCache } from './suggestions'
+
+export interface ImportRow {
+  rowNumber: number // line in the CSV file, counting the header as line 1
+  name: string
+  category: string
+  data: NewClothingItem | null // insert payload, null when the row has errors
+  timesWorn: number
+  errors: string[]
+}
+
+// Values of the clothing_category enum, with the display names accepted as aliases
+const categoryAliases: Record<string, string> = {
+  'tops': 'tops',
+  'bottoms': 'bottoms',
+  'dresses_jumpsuits': 'dresses_jumpsuits',
+  'dresses & jumpsuits': 'dresses_jumpsuits',
+  'shoes': 'shoes',
+  'accessories': 'accessories',
+  'outerwear': 'outerwear',
+  'underwear': 'underwear',
+  'sleepwear': 'sleepwear',
+  'activewear': 'activewear',
+}
+
+const textColumns = ['subcategory', 'brand', 'color', 'pattern', 'material', 'purchase_location', 'notes']
+
+// Columns that fit in VARCHAR fields in the schema
+const maxLengths: Record<string, number> = {
+  name: 255,
+  subcategory: 100,
+  brand: 100,
+  color: 50,
+  pattern: 50,
+  material: 100,
+  purchase_location: 255,
+}
+
+const ITEM_BATCH_SIZE = 50
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalized = value.trim().toLowerCase()
+  if (['', 'false', 'no', 'n', '0'].includes(normalized)) return false
+  if (['true', 'yes', 'y', '1', 'x'].includes(normalized)) return true
+  return null
+}
+
+/**
+ * Parse and validate a CSV of clothing items.
+ * The header row names clothing_items columns (e.g. name, category, brand, purchase_price);
+ * unknown columns are ignored so a CSV export can be imported again.
+ * @param text - CSV document
+ * @returns Rows with their insert payload or validation errors
+ */
+export const parseImportCsv = (text: string): { rows: ImportRow[]; error?: string } => {
+  const [header, ...lines] = parseCsv(text)
+  if (!header) {
+    return { rows: [], error: 'The file is empty' }
+  }
+
+  const columns = header.map(normalizeHeader)
+  if (!columns.includes('name') || !columns.includes('category')) {
+    return { rows: [], error: 'The CSV needs at least a "name" and a "category" column' }
+  }
+
+  const rows = lines.map((cells, index) => {
+    const value = (column: string) => {
+      const columnIndex = columns.indexOf(column)
+      return columnIndex === -1 ? '' : unescapeCsvFormula((cells[columnIndex] || '').trim())
+    }
+
+    const errors: string[] = []
+    const name = value('name')
+    const categoryInput = value('category')
+    const category = categoryAliases[categoryInput.toLowerCase()]
+
+    if (!name) {
+      errors.push('Name is required')
+    }
+    if (!categoryInput) {
+      errors.push('Category is required')
+    } else if (!category) {
+      errors.push(`Unknown category "${categoryInput}"`)
+    }
+
+    const data: Record<string, unknown> = {
+      name,
+      category,
+    }
+
+    for (const column of textColumns) {
+      data[column] = value(column) || null
+    }
+
+    for (const [column, maxLength] of Object.entries(maxLengths)) {
+      const text = data[column]
+      if (typeof text === 'string' && text.length > maxLength) {
+        errors.push(`${column} is longer than ${maxLength} characters`)
+      }
+    }
+
+    const purchaseDate = value('purchase_date')
+    if (purchaseDate && !isValidDateString(purchaseDate)) {
+      errors.push(`Purchase date "${purchaseDate}" is not YYYY-MM-DD`)
+    }
+    data.purchase_date = purchaseDate || null
+
+    // Accept Swedish decimal commas and "kr" suffixes, e.g. "1 299,50 kr"
+    const priceInput = value('purchase_price')
+    const price = priceInput ? Number(priceInput.replace(/kr|sek|\s/gi, '').replace(',', '.')) : null
+    if (price !== null && (isNaN(price) || price < 0)) {
+      errors.push(`Price "${priceInput}" is not a valid amount`)
+    }
+    data.purchase_price = price
+
+    for (const column of ['second_hand', 'dog_wear']) {
+      const flag = parseBoolean(value(column))
+      if (flag === null) {
+        errors.push(`${column} must be yes or no`)
+      }
+      data[column] = flag ?? false
+    }
+
+    const timesWornInput = value('times_worn')
+    const timesWorn = timesWornInput ? Number(timesWornInput) : 0
+    if (!Number.isInteger(timesWorn) || timesWorn < 0) {
+      errors.push(`Times worn "${timesWornInput}" must be a whole number`)
+    }
+
+    return {
+      rowNumber: index + 2,
+      name: name || '(no name)',
+      category: category || categoryInput,
+      // name and category are set once the row has no errors
+      data: errors.length === 0 ? (data as NewClothingItem) : null,
+      timesWorn: errors.length === 0 ? timesWorn : 0,
+      errors,
+    }
+  })
+
+  return { rows }
+}
+
+/**
+ * Insert the valid import rows in batches, adding undated wear history for initial wear counts
+ * @param userId - Owner of the items
+ * @param rows - Rows from parseImportCsv; rows with errors are skipped
+ * @param onProgress - Called with the number of items inserted so far; on an error,
+ *   the items reported so far stay imported
+ * @returns Promise with the number of items imported
+ */
+export const importItems = async (
+  userId: string,
+  rows: ImportRow[],
+  onProgress?: (importedCount: number) => void
+): Promise<ApiResult<number>> => {
+  const validRows = rows.filter(
+    (row): row is ImportRow & { data: NewClothingItem } => row.data !== null
+  )
+
+  try {
+    for (let start = 0; start < validRows.length; start += ITEM_BATCH_SIZE) {
+      const batch = validRows.slice(start, start + ITEM_BATCH_SIZE)
+
+      // Same as AddItem: one undated wear per initial wear so the count is backed by history
+      const result = await createItems(
+        userId,
+        batch.map(row => ({ item: row.data, initialWears: row.timesWorn }))
+      )
+      if (!result.success) return result
+
+      onProgress?.(start + batch.length)
+    }
+
+    return { success: true, data: validRows.length }
+  } finally {
+    // New brands and subcategories should show up in the suggestions
+    clearSuggestionsCache()
+  }
+}
@@ -0,0 +1,185 @@
+import { storage } from '../lib/storage'
+
+/**
+ * Filtering and sorting for the wardrobe item list
+ */
+
+export type ItemSort =
+  | 'newest'
+  | 'most_worn'
+  | 'least_worn'
+  | 'last_worn'
+  | 'price'
+  | 'cost_per_wear'
+  | 'name'
+
+export interface ItemFilters {
+  category: string | null
+  brand: string | null
+  color: string | null
+  secondHand: boolean
+  dogWear: boolean
+  neverWorn: boolean
+  inactive: boolean // show retired, sold, donated and lost items instead of active ones
+}
+
+export interface ItemListPreferences {
+  filters: ItemFilters
+  sort: ItemSort
+}
+
+// Fields the filters and sort options read
+export interface FilterableItem {
+  category: string
+  brand?: string | null
+  color?: string | null
+  purchase_price?: number | null
+  sale_price?: number | null
+  maintenance_cost?: number
+  status: string
+  second_hand: boolean
+  dog_wear: boolean
+  times_worn: number
+  last_worn_date?: string | null
+  name: string
+  created_at: string | null
+}
+
+export const sortOptions: { key: ItemSort; label: string }[] = [
+  { key: 'newest', label: 'Newest' },
+  { key: 'most_worn', label: 'Most worn' },
+  { key: 'least_worn', label: 'Least worn' },
+  { key: 'last_worn', label: 'Recently worn' },
+  { key: 'price', label: 'Price' },
+  { key: 'cost_per_wear', label: 'Cost per wear' },
+  { key: 'name', label: 'Name' },
+]
+
+export const emptyFilters: ItemFilters = {
+  category: null,
+  brand: null,
+  color: null,
+  secondHand: false,
+  dogWear: false,
+  neverWorn: false,
+  inactive: false,
+}
+
+export const defaultPreferences: ItemListPreferences = {
+  filters: emptyFilters,
+  sort: 'newest',
+}
+
+const PREFERENCES_KEY = 'wardrobe-tracker.item-list-preferences'
+
+/**
+ * Number of filters that are switched on
+ */
+export const countActiveFilters = (filters: ItemFilters): number =>
+  [filters.category, filters.brand, filters.color].filter(Boolean).length +
+  [filters.secondHand, filters.dogWear, filters.neverWorn, filters.inactive].filter(Boolean).length
+
+/**
+ * Whether an item is still in the wardrobe. Retired, sold, donated and lost items
+ * keep their history and count in analytics, but are left out of everyday lists.
+ */
+export const isActiveItem = (item: { status: string }): boolean => item.status === 'active'
+
+type OwnershipCostFields = Pick<FilterableItem, 'purchase_price' | 'sale_price' | 'maintenance_cost'>
+
+/**
+ * Total cost of ownership: purchase price plus care and repairs, less any resale income.
+ * Null if the item has no price; never below zero, as in clothing_items_with_stats.
+ */
+export const getTotalCostOfOwnership = (item: OwnershipCostFields): number | null =>
+  item.purchase_price != null
+    ? Math.max(item.purchase_price + (item.maintenance_cost || 0) - (item.sale_price || 0), 0)
+    : null
+
+/**
+ * Total cost of ownership divided by times worn,
+ * or null if the item has no price or has not been worn
+ */
+export const getCostPerWear = (item: OwnershipCostFields & Pick<FilterableItem, 'times_worn'>): number | null => {
+  const totalCost = getTotalCostOfOwnership(item)
+  return totalCost !== null && item.times_worn > 0 ? totalCost / item.times_worn : null
+}
+
+// Items without a value for the sort key go last, whatever the direction
+const compareNullable = (a: number | string | null | undefined, b: number | string | null | undefined, descending: boolean) => {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1
+  if (b === null || b === undefined) return -1
+  if (a === b) return 0
+  return (a < b ? -1 : 1) * (descending ? -1 : 1)
+}
+
+const comparators: Record<ItemSort, (a: FilterableItem, b: FilterableItem) => number> = {
+  newest: (a, b) => compareNullable(a.created_at, b.created_at, true),
+  most_worn: (a, b) => b.times_worn - a.times_worn,
+  least_worn: (a, b) => a.times_worn - b.times_worn,
+  last_worn: (a, b) => compareNullable(a.last_worn_date, b.last_worn_date, true),
+  price: (a, b) => compareNullable(a.purchase_price, b.purchase_price, true),
+  // Highest first, so the items that most need wearing come to the top
+  cost_per_wear: (a, b) => compareNullable(getCostPerWear(a), getCostPerWear(b), true),
+  name: (a, b) => a.name.localeCompare(b.name, 'sv'),
+}
+
+/**
+ * Apply filters and sort order to a list of items
+ * @param items - Items to filter
+ * @param preferences - Filters and sort order
+ * @returns New array with the matching items in order
+ */
+export const applyItemFilters = <T extends FilterableItem>(
+  items: T[],
+  { filters, sort }: ItemListPreferences
+): T[] => {
+  const filtered = items.filter(item =>
+    (!filters.category || item.category === filters.category) &&
+    (!filters.brand || item.brand === filters.brand) &&
+    (!filters.color || item.color === filters.color) &&
+    (!filters.secondHand || item.second_hand) &&
+    (!filters.dogWear || item.dog_wear) &&
+    (!filters.neverWorn || item.times_worn === 0) &&
+    isActiveItem(item) !== filters.inactive
+  )
+
+  return filtered.sort(comparators[sort] || comparators.newest)
+}
+
+/**
+ * Distinct non-empty values of a field, sorted, for building filter chips
+ */
+export const getFilterValues = (items: FilterableItem[], field: 'brand' | 'color'): string[] =>
+  Array.from(new Set(items.map(item => item[field]).filter((value): value is string => !!value)))
+    .sort((a, b) => a.localeCompare(b, 'sv'))
+
+/**
+ * Load the filters and sort order saved in a previous session
+ */
+export const loadItemListPreferences = async (): Promise<ItemListPreferences> => {
+  try {
+    const stored = await storage.getItem(PREFERENCES_KEY)
+    if (!stored) return defaultPreferences
+
+    const parsed = JSON.parse(stored)
+    return {
+      filters: { ...emptyFilters, ...parsed.filters },
+      sort: sortOptions.some(option => option.key === parsed.sort) ? parsed.sort : defaultPreferences.sort,
+    }
+  } catch (error) {
+    console.error('Error loading item list preferences:', error)
+    return defaultPreferences
+  }
+}
+
+/**
+ * Save the filters and sort order so they are restored next session
+ */
+export const saveItemListPreferences = async (preferences: ItemListPreferences): Promise<void> => {
+  try {
+    await storage.setItem(PREFERENCES_KEY, JSON.stringify(preferences))
+  } catch (error) {
+    console.error('Error saving item list preferences:', error)
+  }
+}
@@ -0,0 +1,148 @@
+import { addDays } from './dates'
+import { isActiveItem } from './itemFilters'
+
+/**
+ * Weather-aware outfit suggestions: a top and bottoms (or a dress or jumpsuit instead), shoes and,
+ * when it is cold or wet, outerwear, picked from clean items that have not been worn in the last few days.
+ */
+
+export type Warmth = 'light' | 'medium' | 'warm'
+export type OutfitSlot = 'top' | 'bottom' | 'dress' | 'shoes' | 'outerwear'
+
+// Fields the suggestions read from an item
+export interface SuggestableItem {
+  id: string
+  category: string
+  status: string
+  laundry_state: string
+  last_worn_date?: string | null
+  warmth?: Warmth | null
+  waterproof: boolean
+}
+
+export interface WeatherConditions {
+  minTemperature: number // °C
+  maxTemperature: number // °C
+  precipitation: number // mm
+}
+
+export interface OutfitSuggestion<T extends SuggestableItem> {
+  slots: OutfitSlot[] // the slots this outfit is made of, in display order
+  items: Partial<Record<OutfitSlot, T>> // slots without a suitable item are left out
+  warmth: Warmth
+  needsOuterwear: boolean
+  isWet: boolean
+}
+
+export const warmthOptions: { key: Warmth; label: string; icon: string }[] = [
+  { key: 'light', label: 'Light', icon: '☀️' },
+  { key: 'medium', label: 'Medium', icon: '🌤️' },
+  { key: 'warm', label: 'Warm', icon: '❄️' },
+]
+
+const slotCategories: Record<OutfitSlot, string> = {
+  top: 'tops',
+  bottom: 'bottoms',
+  dress: 'dresses_jumpsuits',
+  shoes: 'shoes',
+  outerwear: 'outerwear',
+}
+
+// Items worn this recently are left out, so the suggestions rotate through the wardrobe
+export const RECENT_WEAR_DAYS = 3
+
+// A day counts as wet from this much rain or snow
+const WET_PRECIPITATION_MM = 1
+
+// Outerwear is suggested when the coldest part of the day is below this
+const OUTERWEAR_BELOW_CELSIUS = 15
+
+/**
+ * The warmth that suits a day, judged by the average of its lowest and highest temperature
+ */
+export const getWarmthForWeather = (weather: WeatherConditions): Warmth => {
+  const average = (weather.minTemperature + weather.maxTemperature) / 2
+  if (average >= 20) return 'light'
+  if (average >= 10) return 'medium'
+  return 'warm'
+}
+
+const warmthSteps: Record<Warmth, number> = { light: 0, medium: 1, warm: 2 }
+
+// Lower is better: exact warmth first, unrated items next, then one step off; two steps off is left out
+const warmthPenalty = (item: SuggestableItem, warmth: Warmth): number | null => {
+  if (!item.warmth) return 1
+  const steps = Math.abs(warmthSteps[item.warmth] - warmthSteps[warmth])
+  return steps === 0 ? 0 : steps === 1 ? 2 : null
+}
+
+/**
+ * Whether an item can be suggested today: active, clean and not worn in the last few days
+ */
+export const isAvailableForSuggestion = (item: SuggestableItem, today: string): boolean =>
+  isActiveItem(item) &&
+  item.laundry_state === 'clean' &&
+  (!item.last_worn_date || item.last_worn_date < addDays(today, -RECENT_WEAR_DAYS + 1))
+
+/**
+ * Suggest an outfit for the weather
+ * @param items - The whole wardrobe; unavailable items are skipped
+ * @param weather - Temperature range and precipitation of the day
+ * @param today - YYYY-MM-DD, used to leave out recently worn items
+ * @param excludeIds - Items not to suggest, e.g. from a suggestion that was turned down
+ * @returns The best item for each slot. Within a slot, items that match the warmth win,
+ *   on wet days waterproof items come first, and ties go to the item worn longest ago.
+ *   A dress or jumpsuit fills the top and bottom slots when it is a better match than
+ *   the best top, or when there is no top and bottoms to suggest.
+ */
+export const suggestOutfit = <T extends SuggestableItem>(
+  items: T[],
+  weather: WeatherConditions,
+  today: string,
+  excludeIds: string[] = []
+): OutfitSuggestion<T> => {
+  const warmth = getWarmthForWeather(weather)
+  const isWet = weather.precipitation >= WET_PRECIPITATION_MM
+  const needsOuterwear = isWet || weather.minTemperature < OUTERWEAR_BELOW_CELSIUS
+  const available = items.filter(item => isAvailableForSuggestion(item, today) && !excludeIds.includes(item.id))
+
+  type Candidate = { item: T; penalty: number }
+
+  const compare = (a: Candidate, b: Candidate, rainMatters: boolean): number => {
+    if (rainMatters && a.item.waterproof !== b.item.waterproof) return a.item.waterproof ? -1 : 1
+    if (a.penalty !== b.penalty) return a.penalty - b.penalty
+    return (a.item.last_worn_date || '').localeCompare(b.item.last_worn_date || '')
+  }
+
+  const best = (slot: OutfitSlot): Candidate | undefined => {
+    const candidates = available
+      .filter(item => item.category === slotCategories[slot])
+      .map(item => ({ item, penalty: warmthPenalty(item, warmth) }))
+      .filter((candidate): candidate is Candidate => candidate.penalty !== null)
+
+    // Only shoes and outerwear need to keep the rain out
+    const rainMatters = isWet && (slot === 'shoes' || slot === 'outerwear')
+
+    return candidates.sort((a, b) => compare(a, b, rainMatters))[0]
+  }
+
+  const top = best('top')
+  const bottom = best('bottom')
+  const dress = best('dress')
+  const wearsDress = !!dress && (!top || !bottom || compare(dress, top, false) < 0)
+
+  const slots: OutfitSlot[] = [
+    ...(wearsDress ? ['dress' as const] : ['top' as const, 'bottom' as const]),
+    'shoes',
+    ...(needsOuterwear ? ['outerwear' as const] : []),
+  ]
+  const picked: Partial<Record<OutfitSlot, Candidate>> = { top, bottom, dress }
+
+  const suggested: Partial<Record<OutfitSlot, T>> = {}
+  for (const slot of slots) {
+    const item = (picked[slot] ?? best(slot))?.item
+    if (item) suggested[slot] = item
+  }
+
+  return { slots, items: suggested, warmth, needsOuterwear, isWet }
+}
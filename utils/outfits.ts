@@ -0,0 +1,201 @@
+import { supabase } from '../lib/supabase'
+import { ApiResult, fail, ok, recordWears } from '../lib/wardrobe'
+
+export interface OutfitItem {
+  id: string
+  name: string
+  category: string
+  brand?: string
+  image_urls?: string[]
+}
+
+export interface Outfit {
+  id: string
+  name: string
+  notes?: string
+  items: OutfitItem[]
+  times_worn: number
+  created_at: string
+}
+
+/**
+ * Fetch all outfits for the signed-in user with their items and wear count
+ * @returns Promise with outfits ordered by name
+ */
+export async function fetchOutfits(): Promise<ApiResult<Outfit[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('outfits')
+      .select(`
+        id, name, notes, created_at,
+        outfit_items ( clothing_items ( id, name, category, brand, image_urls ) ),
+        outfit_wears ( count )
+      `)
+      .order('name', { ascending: true })
+
+    if (error) return fail('fetching outfits', error)
+
+    return ok((data || []).map(outfit => ({
+      id: outfit.id,
+      name: outfit.name,
+      notes: outfit.notes || undefined,
+      created_at: outfit.created_at || '',
+      items: (outfit.outfit_items || []).flatMap(({ clothing_items: item }) =>
+        item
+          ? [{
+              id: item.id,
+              name: item.name,
+              category: item.category,
+              brand: item.brand || undefined,
+              image_urls: item.image_urls || undefined,
+            }]
+          : []
+      ),
+      times_worn: outfit.outfit_wears?.[0]?.count || 0,
+    })))
+  } catch (error) {
+    return fail('fetching outfits', error)
+  }
+}
+
+/**
+ * Fetch the outfits that include an item, for linking to them from the item's detail view
+ * @param itemId - Clothing item to look up
+ * @returns Promise with the outfits' ids and names ordered by name
+ */
+export async function fetchItemOutfits(itemId: string): Promise<ApiResult<Pick<Outfit, 'id' | 'name'>[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('outfits')
+      .select('id, name, outfit_items!inner ( clothing_item_id )')
+      .eq('outfit_items.clothing_item_id', itemId)
+      .order('name', { ascending: true })
+
+    if (error) return fail('fetching item outfits', error)
+
+    return ok((data || []).map(outfit => ({ id: outfit.id, name: outfit.name })))
+  } catch (error) {
+    return fail('fetching item outfits', error)
+  }
+}
+
+/**
+ * Create a new outfit or update an existing one. The new item list is saved before
+ * the items no longer on it are removed, so a failure part way never leaves the
+ * outfit empty.
+ * @param userId - Owner of the outfit
+ * @param outfit - Outfit fields; pass an id to update
+ * @returns Promise with the id of the saved outfit
+ */
+export async function saveOutfit(
+  userId: string,
+  outfit: { id?: string; name: string; notes?: string; itemIds: string[] }
+): Promise<ApiResult<string>> {
+  try {
+    const outfitData = {
+      user_id: userId,
+      name: outfit.name.trim(),
+      notes: outfit.notes?.trim() || null,
+    }
+
+    let outfitId = outfit.id
+    if (outfitId) {
+      const { error } = await supabase
+        .from('outfits')
+        .update(outfitData)
+        .eq('id', outfitId)
+
+      if (error) return fail('updating outfit', error)
+    } else {
+      const { data, error } = await supabase
+        .from('outfits')
+        .insert(outfitData)
+        .select('id')
+        .single()
+
+      if (error) return fail('creating outfit', error)
+
+      outfitId = data.id
+    }
+
+    if (outfit.itemIds.length > 0) {
+      const savedOutfitId = outfitId
+      const { error } = await supabase
+        .from('outfit_items')
+        .upsert(
+          outfit.itemIds.map(itemId => ({
+            outfit_id: savedOutfitId,
+            clothing_item_id: itemId,
+            user_id: userId,
+          })),
+          { onConflict: 'outfit_id,clothing_item_id', ignoreDuplicates: true }
+        )
+
+      if (error) return fail('saving outfit items', error)
+    }
+
+    if (outfit.id) {
+      let removeQuery = supabase
+        .from('outfit_items')
+        .delete()
+        .eq('outfit_id', outfit.id)
+
+      if (outfit.itemIds.length > 0) {
+        removeQuery = removeQuery.not('clothing_item_id', 'in', `(${outfit.itemIds.join(',')})`)
+      }
+
+      const { error } = await removeQuery
+      if (error) return fail('removing outfit items', error)
+    }
+
+    return ok(outfitId)
+  } catch (error) {
+    return fail('saving outfit', error)
+  }
+}
+
+/**
+ * Delete an outfit. Wears already logged through it are kept.
+ */
+export async function deleteOutfit(outfitId: string): Promise<ApiResult<null>> {
+  try {
+    const { error } = await supabase
+      .from('outfits')
+      .delete()
+      .eq('id', outfitId)
+
+    if (error) return fail('deleting outfit', error)
+
+    return ok(null)
+  } catch (error) {
+    return fail('deleting outfit', error)
+  }
+}
+
+/**
+ * Log a whole outfit as worn: one outfit_wears record plus one wear_history row per item,
+ * kept on the device when offline like any other wear (see recordWears)
+ * @param userId - Owner of the outfit
+ * @param outfit - The outfit being worn
+ * @param dateWorn - Date worn as YYYY-MM-DD
+ * @returns Promise with whether the wears are waiting to sync
+ */
+export async function wearOutfit(
+  userId: string,
+  outfit: Outfit,
+  dateWorn: string
+): Promise<ApiResult<{ queued: boolean }>> {
+  if (outfit.items.length === 0) {
+    return { success: false, error: 'This outfit has no items' }
+  }
+
+  const result = await recordWears(
+    userId,
+    outfit.items.map(item => ({ clothing_item_id: item.id, date_worn: dateWorn })),
+    { outfit_id: outfit.id, date_worn: dateWorn }
+  )
+
+  return result.success
+    ? ok({ queued: !!result.queued })
+    : { success: false, error: result.error || 'Failed to log outfit' }
+}
@@ -0,0 +1,141 @@
+import { addDays } from './dates'
+import { isActiveItem } from './itemFilters'
+
+/**
+ * Trip packing lists: how much of each category to bring, which items to propose,
+ * and which packed item to count as worn on each day of the trip.
+ */
+
+export type TripActivity = 'hiking' | 'beach' | 'sport' | 'dinner' | 'business' | 'cold_weather'
+
+// Fields the packing list reads from an item
+export interface PackableItem {
+  id: string
+  category: string
+  status: string
+  dog_wear: boolean
+  laundry_state: string
+  times_worn: number
+}
+
+export const tripActivities: { key: TripActivity; label: string; icon: string }[] = [
+  { key: 'hiking', label: 'Hiking', icon: '🥾' },
+  { key: 'beach', label: 'Beach', icon: '🏖️' },
+  { key: 'sport', label: 'Sport', icon: '🏃' },
+  { key: 'dinner', label: 'Dinners out', icon: '🍽️' },
+  { key: 'business', label: 'Business', icon: '💼' },
+  { key: 'cold_weather', label: 'Cold weather', icon: '❄️' },
+]
+
+// Clothes are re-worn on longer trips, so counts stop growing after a week
+const MAX_PACKING_DAYS = 7
+
+/**
+ * Every date of a trip, first and last day included, as YYYY-MM-DD
+ */
+export const getTripDates = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = []
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * How many items of each category to pack for a trip
+ * @param days - Length of the trip in days
+ * @param activities - Planned activities, which add sportswear, shoes or smarter clothes
+ * @returns Item counts keyed by category; categories not needed are left out
+ */
+export const getPackingCounts = (days: number, activities: string[]): Record<string, number> => {
+  const packingDays = Math.min(Math.max(days, 1), MAX_PACKING_DAYS)
+  const counts: Record<string, number> = {
+    tops: packingDays,
+    bottoms: Math.ceil(packingDays / 2),
+    underwear: packingDays,
+    sleepwear: Math.ceil(packingDays / 4),
+    shoes: 1,
+    outerwear: 1,
+  }
+
+  const add = (category: string, count: number) => {
+    counts[category] = (counts[category] || 0) + count
+  }
+
+  if (activities.includes('hiking')) {
+    add('activewear', Math.ceil(packingDays / 2))
+    add('shoes', 1)
+  }
+  if (activities.includes('sport')) {
+    add('activewear', Math.ceil(packingDays / 2))
+    add('shoes', 1)
+  }
+  if (activities.includes('beach')) {
+    add('accessories', 1)
+    add('shoes', 1)
+  }
+  if (activities.includes('dinner')) {
+    add('dresses_jumpsuits', 1)
+    add('shoes', 1)
+  }
+  if (activities.includes('business')) {
+    add('tops', 1)
+    add('bottoms', 1)
+    add('shoes', 1)
+  }
+  if (activities.includes('cold_weather')) {
+    add('outerwear', 1)
+    add('accessories', 1)
+  }
+
+  return counts
+}
+
+/**
+ * Propose a packing list: the active items that best fill each category's count.
+ * Clean items come before items waiting for the wash, favourites (most worn) before the rest,
+ * and when the dog comes along, dog wear comes first. Items in the wash are never proposed.
+ * @returns Ids of the proposed items, grouped by category
+ */
+export const proposePackingList = <T extends PackableItem>(
+  items: T[],
+  trip: { start_date: string; end_date: string; activities: string[]; brings_dog: boolean }
+): string[] => {
+  const counts = getPackingCounts(getTripDates(trip.start_date, trip.end_date).length, trip.activities)
+  const available = items.filter(item => isActiveItem(item) && item.laundry_state !== 'in_wash')
+
+  const byPreference = (a: T, b: T) => {
+    if (trip.brings_dog && a.dog_wear !== b.dog_wear) return a.dog_wear ? -1 : 1
+    const aClean = a.laundry_state === 'clean'
+    if (aClean !== (b.laundry_state === 'clean')) return aClean ? -1 : 1
+    return b.times_worn - a.times_worn
+  }
+
+  return Object.entries(counts).flatMap(([category, count]) =>
+    available
+      .filter(item => item.category === category)
+      .sort(byPreference)
+      .slice(0, count)
+      .map(item => item.id)
+  )
+}
+
+/**
+ * The wears to log for a trip: on each day, one packed item of every packed category,
+ * taking turns through the category's items from day to day.
+ * @param packedItems - Items ticked as packed
+ * @param dates - Trip days to log, as YYYY-MM-DD
+ */
+export const planTripWears = (
+  packedItems: { id: string; category: string }[],
+  dates: string[]
+): { clothing_item_id: string; date_worn: string }[] => {
+  const byCategory = new Map<string, string[]>()
+  for (const item of packedItems) {
+    byCategory.set(item.category, [...(byCategory.get(item.category) || []), item.id])
+  }
+
+  return Array.from(byCategory.values()).flatMap(itemIds =>
+    dates.map((date, index) => ({ clothing_item_id: itemIds[index % itemIds.length], date_worn: date }))
+  )
+}
@@ -0,0 +1,268 @@
+import { addDays, getTodayString, isValidDateString, toDateString } from './dates'
+import { getCostPerWear } from './itemFilters'
+
+/**
+ * Wardrobe search with a small query language.
+ *
+ * Examples:
+ *   black dress                 free text, every word must match
+ *   brand:cos color:black       text fields (substring match)
+ *   brand:"& other stories"     quoted values may contain spaces
+ *   worn:<3 price:>500 cpw:<=20 numbers compared with <, <=, >, >= or =
+ *   lastworn:<2024-06-01        dates compared the same way; also bought:
+ *   lastworn:>=thisyear         relative dates: today, thismonth, thisyear, 30d, 8w, 6m, 1y (ago)
+ *   secondhand dogwear unworn   flags
+ *   -wool -brand:hm             a leading minus excludes matches
+ */
+
+export interface SearchableItem {
+  name: string
+  category: string
+  subcategory?: string | null
+  brand?: string | null
+  color?: string | null
+  pattern?: string | null
+  material?: string | null
+  purchase_location?: string | null
+  purchase_price?: number | null
+  sale_price?: number | null
+  maintenance_cost?: number
+  purchase_date?: string | null
+  last_worn_date?: string | null
+  notes?: string | null
+  second_hand?: boolean
+  dog_wear?: boolean
+  times_worn: number
+}
+
+type TextField = 'name' | 'category' | 'subcategory' | 'brand' | 'color' | 'pattern' | 'material' | 'purchase_location' | 'notes'
+type NumberField = 'times_worn' | 'purchase_price' | 'cost_per_wear'
+type DateField = 'last_worn_date' | 'purchase_date'
+type Flag = 'second_hand' | 'dog_wear' | 'unworn'
+type Operator = '<' | '<=' | '>' | '>=' | '='
+
+export type SearchTerm =
+  | { kind: 'text'; value: string; negate: boolean }
+  | { kind: 'field'; field: TextField; value: string; negate: boolean }
+  | { kind: 'number'; field: NumberField; operator: Operator; value: number; negate: boolean }
+  | { kind: 'date'; field: DateField; operator: Operator; value: string; negate: boolean }
+  | { kind: 'flag'; flag: Flag; negate: boolean }
+
+const textFieldAliases: Record<string, TextField> = {
+  name: 'name',
+  category: 'category',
+  cat: 'category',
+  subcategory: 'subcategory',
+  sub: 'subcategory',
+  type: 'subcategory',
+  brand: 'brand',
+  color: 'color',
+  colour: 'color',
+  pattern: 'pattern',
+  material: 'material',
+  location: 'purchase_location',
+  store: 'purchase_location',
+  shop: 'purchase_location',
+  notes: 'notes',
+  note: 'notes',
+}
+
+const numberFieldAliases: Record<string, NumberField> = {
+  worn: 'times_worn',
+  wears: 'times_worn',
+  price: 'purchase_price',
+  cpw: 'cost_per_wear',
+}
+
+const dateFieldAliases: Record<string, DateField> = {
+  lastworn: 'last_worn_date',
+  bought: 'purchase_date',
+}
+
+const flagAliases: Record<string, Flag> = {
+  secondhand: 'second_hand',
+  'second-hand': 'second_hand',
+  used: 'second_hand',
+  dogwear: 'dog_wear',
+  dog: 'dog_wear',
+  unworn: 'unworn',
+  neverworn: 'unworn',
+}
+
+// Display names are searchable too, so "dresses" finds dresses_jumpsuits
+const categoryDisplayNames: Record<string, string> = {
+  'tops': 'Tops',
+  'bottoms': 'Bottoms',
+  'dresses_jumpsuits': 'Dresses & Jumpsuits',
+  'shoes': 'Shoes',
+  'accessories': 'Accessories',
+  'outerwear': 'Outerwear',
+  'underwear': 'Underwear',
+  'sleepwear': 'Sleepwear',
+  'activewear': 'Activewear',
+}
+
+// Fields free text is matched against
+const freeTextFields: TextField[] = [
+  'name', 'category', 'subcategory', 'brand', 'color', 'pattern', 'material', 'purchase_location', 'notes',
+]
+
+// An optional "-", an optional "field:", then a quoted or unquoted value
+const TOKEN_PATTERN = /(-)?(?:([a-z_-]+):)?(?:"([^"]*)"?|(\S+))/gi
+
+const NUMBER_PATTERN = /^(<=|>=|<|>|=)?(\d+(?:[.,]\d+)?)$/
+const DATE_PATTERN = /^(<=|>=|<|>|=)?(.+)$/
+const RELATIVE_DATE_PATTERN = /^(\d+)([dwmy])$/
+
+/**
+ * Resolve a date value to YYYY-MM-DD, evaluated against today so saved queries stay current
+ */
+const resolveDate = (value: string): string | null => {
+  const today = getTodayString()
+  if (isValidDateString(value)) return value
+  if (value === 'today') return today
+  if (value === 'thismonth') return `${today.slice(0, 7)}-01`
+  if (value === 'thisyear') return `${today.slice(0, 4)}-01-01`
+
+  const relative = value.match(RELATIVE_DATE_PATTERN)
+  if (!relative) return null
+
+  const amount = Number(relative[1])
+  const date = new Date(`${today}T00:00:00`)
+  switch (relative[2]) {
+    case 'd': return addDays(today, -amount)
+    case 'w': return addDays(today, -amount * 7)
+    case 'm': date.setMonth(date.getMonth() - amount); break
+    case 'y': date.setFullYear(date.getFullYear() - amount); break
+  }
+  return toDateString(date)
+}
+
+/**
+ * Split a query into search terms.
+ * Unknown fields are treated as free text and incomplete numbers (e.g. "worn:<" while typing) are ignored.
+ */
+export const parseSearchQuery = (query: string): SearchTerm[] => {
+  const terms: SearchTerm[] = []
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, minus, rawField, quotedValue, plainValue] = match
+    const negate = !!minus
+    const field = rawField?.toLowerCase()
+    const value = (quotedValue ?? plainValue ?? '').trim()
+
+    if (!field) {
+      const flag = flagAliases[value.toLowerCase()]
+      if (flag && quotedValue === undefined) {
+        terms.push({ kind: 'flag', flag, negate })
+      } else if (value) {
+        terms.push({ kind: 'text', value: value.toLowerCase(), negate })
+      }
+      continue
+    }
+
+    if (textFieldAliases[field]) {
+      if (value) {
+        terms.push({ kind: 'field', field: textFieldAliases[field], value: value.toLowerCase(), negate })
+      }
+      continue
+    }
+
+    if (numberFieldAliases[field]) {
+      const number = value.match(NUMBER_PATTERN)
+      if (number) {
+        terms.push({
+          kind: 'number',
+          field: numberFieldAliases[field],
+          operator: (number[1] || '=') as Operator,
+          value: Number(number[2].replace(',', '.')),
+          negate,
+        })
+      }
+      continue
+    }
+
+    if (dateFieldAliases[field]) {
+      const date = value.toLowerCase().match(DATE_PATTERN)
+      const resolved = date && resolveDate(date[2])
+      if (date && resolved) {
+        terms.push({
+          kind: 'date',
+          field: dateFieldAliases[field],
+          operator: (date[1] || '=') as Operator,
+          value: resolved,
+          negate,
+        })
+      }
+      continue
+    }
+
+    // Not a known field, so search for the whole token (e.g. a URL or a time like 10:30)
+    terms.push({ kind: 'text', value: token.replace(/^-/, '').toLowerCase(), negate })
+  }
+
+  return terms
+}
+
+const getTextValue = (item: SearchableItem, field: TextField): string => {
+  if (field === 'category') {
+    return `${item.category} ${categoryDisplayNames[item.category] || ''}`.toLowerCase()
+  }
+  return (item[field] || '').toLowerCase()
+}
+
+const getNumberValue = (item: SearchableItem, field: NumberField): number | null => {
+  if (field === 'cost_per_wear') {
+    return getCostPerWear(item)
+  }
+  return item[field] ?? null
+}
+
+// Works for numbers and for YYYY-MM-DD strings, which sort in date order
+const compare = <T extends number | string>(actual: T, operator: Operator, expected: T): boolean => {
+  switch (operator) {
+    case '<': return actual < expected
+    case '<=': return actual <= expected
+    case '>': return actual > expected
+    case '>=': return actual >= expected
+    default: return actual === expected
+  }
+}
+
+const matchesTerm = (item: SearchableItem, term: SearchTerm): boolean => {
+  switch (term.kind) {
+    case 'text':
+      return freeTextFields.some(field => getTextValue(item, field).includes(term.value))
+    case 'field':
+      return getTextValue(item, term.field).includes(term.value)
+    case 'number': {
+      const actual = getNumberValue(item, term.field)
+      return actual !== null && compare(actual, term.operator, term.value)
+    }
+    case 'date': {
+      const actual = item[term.field]
+      return !!actual && compare(actual, term.operator, term.value)
+    }
+    case 'flag':
+      return term.flag === 'unworn' ? item.times_worn === 0 : !!item[term.flag]
+  }
+}
+
+/**
+ * Whether an item matches every term of a parsed query
+ */
+export const matchesSearch = (item: SearchableItem, terms: SearchTerm[]): boolean =>
+  terms.every(term => matchesTerm(item, term) !== term.negate)
+
+/**
+ * Filter items by a search query
+ * @param items - Items to search
+ * @param query - Query text, see the examples at the top of this file
+ * @returns The matching items, in their original order
+ */
+export const searchItems = <T extends SearchableItem>(items: T[], query: string): T[] => {
+  const terms = parseSearchQuery(query)
+  if (terms.length === 0) return items
+
+  return items.filter(item => matchesSearch(item, terms))
+}
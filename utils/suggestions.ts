@@ -1,4 +1,4 @@
-import { supabase } from '../lib/supabase'
+import { ApiResult, ClothingCategory, listItemLabels } from '../lib/wardrobe'
 
 export interface SuggestionsData {
   brands: string[]
@@ -10,111 +10,59 @@ let suggestionsCache: SuggestionsData | null = null
 let lastCacheTime = 0
 const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
 
-export async function getSuggestions(userId: string, forceRefresh = false): Promise<SuggestionsData> {
+// Unique trimmed values, sorted, without null/empty values
+const uniqueValues = (values: (string | null)[]): string[] =>
+  Array.from(new Set(
+    values
+      .filter((value): value is string => Boolean(value && value.trim()))
+      .map(value => value.trim())
+  )).sort()
+
+export async function getSuggestions(forceRefresh = false): Promise<ApiResult<SuggestionsData>> {
   const now = Date.now()
   
   // Return cached data if it's fresh and we're not forcing a refresh
   if (!forceRefresh && suggestionsCache && (now - lastCacheTime) < CACHE_DURATION) {
-    return suggestionsCache
+    return { success: true, data: suggestionsCache }
   }
   
-  try {
-    // Fetch all items for the user to extract unique values
-    const { data: items, error } = await supabase
-      .from('clothing_items')
-      .select('brand, subcategory')
-      .eq('user_id', userId)
-    
-    if (error) {
-      console.error('Error fetching suggestions:', error)
-      return { brands: [], subcategories: [] }
-    }
-    
-    if (!items || items.length === 0) {
-      const emptySuggestions = { brands: [], subcategories: [] }
-      suggestionsCache = emptySuggestions
-      lastCacheTime = now
-      return emptySuggestions
-    }
-    
-    // Extract unique brands (filter out null/empty values)
-    const brands = Array.from(new Set(
-      items
-        .map(item => item.brand)
-        .filter((brand): brand is string => 
-          Boolean(brand && brand.trim())
-        )
-        .map(brand => brand.trim())
-    )).sort()
-    
-    // Extract unique subcategories (filter out null/empty values)
-    const subcategories = Array.from(new Set(
-      items
-        .map(item => item.subcategory)
-        .filter((subcategory): subcategory is string => 
-          Boolean(subcategory && subcategory.trim())
-        )
-        .map(subcategory => subcategory.trim())
-    )).sort()
-    
-    const suggestions = { brands, subcategories }
-    
-    // Update cache
-    suggestionsCache = suggestions
-    lastCacheTime = now
-    
-    return suggestions
-    
-  } catch (error) {
-    console.error('Error fetching suggestions:', error)
-    return { brands: [], subcategories: [] }
+  const result = await listItemLabels()
+  if (!result.success) return result
+
+  const suggestions = {
+    brands: uniqueValues(result.data.map(item => item.brand)),
+    subcategories: uniqueValues(result.data.map(item => item.subcategory)),
   }
+  
+  // Update cache
+  suggestionsCache = suggestions
+  lastCacheTime = now
+  
+  return { success: true, data: suggestions }
 }
 
 // Get only brands
-export async function getBrandSuggestions(userId: string, forceRefresh = false): Promise<string[]> {
-  const suggestions = await getSuggestions(userId, forceRefresh)
-  return suggestions.brands
+export async function getBrandSuggestions(forceRefresh = false): Promise<ApiResult<string[]>> {
+  const result = await getSuggestions(forceRefresh)
+  return result.success ? { success: true, data: result.data.brands } : result
 }
 
 // Get only subcategories
-export async function getSubcategorySuggestions(userId: string, forceRefresh = false): Promise<string[]> {
-  const suggestions = await getSuggestions(userId, forceRefresh)
-  return suggestions.subcategories
+export async function getSubcategorySuggestions(forceRefresh = false): Promise<ApiResult<string[]>> {
+  const result = await getSuggestions(forceRefresh)
+  return result.success ? { success: true, data: result.data.subcategories } : result
 }
 
 // Get subcategories for a specific category (if we want to be more specific in the future)
 export async function getSubcategorySuggestionsForCategory(
-  userId: string, 
-  category: string, 
-  forceRefresh = false
-): Promise<string[]> {
-  try {
-    const { data: items, error } = await supabase
-      .from('clothing_items')
-      .select('subcategory')
-      .eq('user_id', userId)
-      .eq('category', category)
-    
-    if (error || !items) {
-      console.error('Error fetching category-specific suggestions:', error)
-      return []
-    }
-    
-    const subcategories = Array.from(new Set(
-      items
-        .map(item => item.subcategory)
-        .filter((subcategory): subcategory is string => 
-          Boolean(subcategory && subcategory.trim())
-        )
-        .map(subcategory => subcategory.trim())
-    )).sort()
-    
-    return subcategories
-    
-  } catch (error) {
-    console.error('Error fetching category-specific suggestions:', error)
-    return []
+  category: ClothingCategory
+): Promise<ApiResult<string[]>> {
+  const result = await listItemLabels()
+  if (!result.success) return result
+
+  return {
+    success: true,
+    data: uniqueValues(result.data.filter(item => item.category === category).map(item => item.subcategory)),
   }
 }
 
@@ -0,0 +1,256 @@
+import { supabase } from '../lib/supabase'
+import { ApiResult, fail, ok, recordWears } from '../lib/wardrobe'
+import { getTodayString } from './dates'
+import { getTripDates, planTripWears } from './packing'
+
+export interface TripItem {
+  id: string
+  name: string
+  category: string
+  brand?: string
+  image_urls?: string[]
+  packed: boolean
+}
+
+export interface Trip {
+  id: string
+  destination: string
+  start_date: string
+  end_date: string
+  activities: string[]
+  brings_dog: boolean
+  notes?: string
+  wears_logged_at: string | null
+  items: TripItem[]
+  created_at: string
+}
+
+/**
+ * Fetch all trips for the signed-in user with their packing lists
+ * @returns Promise with trips, latest start date first
+ */
+export async function fetchTrips(): Promise<ApiResult<Trip[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('trips')
+      .select(`
+        id, destination, start_date, end_date, activities, brings_dog, notes, wears_logged_at, created_at,
+        trip_items ( packed, clothing_items ( id, name, category, brand, image_urls ) )
+      `)
+      .order('start_date', { ascending: false })
+
+    if (error) return fail('fetching trips', error)
+
+    return ok((data || []).map(trip => ({
+      id: trip.id,
+      destination: trip.destination,
+      start_date: trip.start_date,
+      end_date: trip.end_date,
+      activities: trip.activities || [],
+      brings_dog: trip.brings_dog,
+      notes: trip.notes || undefined,
+      wears_logged_at: trip.wears_logged_at,
+      created_at: trip.created_at || '',
+      items: (trip.trip_items || []).flatMap(({ packed, clothing_items: item }) =>
+        item
+          ? [{
+              id: item.id,
+              name: item.name,
+              category: item.category,
+              brand: item.brand || undefined,
+              image_urls: item.image_urls || undefined,
+              packed,
+            }]
+          : []
+      ),
+    })))
+  } catch (error) {
+    return fail('fetching trips', error)
+  }
+}
+
+/**
+ * Create a new trip or update an existing one. Items already on the packing list
+ * keep their packed tick; items no longer on the list are removed.
+ * @param userId - Owner of the trip
+ * @param trip - Trip fields and packing list; pass an id to update
+ * @returns Promise with the id of the saved trip
+ */
+export async function saveTrip(
+  userId: string,
+  trip: {
+    id?: string
+    destination: string
+    start_date: string
+    end_date: string
+    activities: string[]
+    brings_dog: boolean
+    notes?: string
+    itemIds: string[]
+  }
+): Promise<ApiResult<string>> {
+  try {
+    const tripData = {
+      user_id: userId,
+      destination: trip.destination.trim(),
+      start_date: trip.start_date,
+      end_date: trip.end_date,
+      activities: trip.activities,
+      brings_dog: trip.brings_dog,
+      notes: trip.notes?.trim() || null,
+    }
+
+    let tripId = trip.id
+    if (tripId) {
+      const { error } = await supabase
+        .from('trips')
+        .update(tripData)
+        .eq('id', tripId)
+
+      if (error) return fail('updating trip', error)
+
+      let removeQuery = supabase
+        .from('trip_items')
+        .delete()
+        .eq('trip_id', tripId)
+
+      if (trip.itemIds.length > 0) {
+        removeQuery = removeQuery.not('clothing_item_id', 'in', `(${trip.itemIds.join(',')})`)
+      }
+
+      const { error: deleteError } = await removeQuery
+      if (deleteError) return fail('removing trip items', deleteError)
+    } else {
+      const { data, error } = await supabase
+        .from('trips')
+        .insert(tripData)
+        .select('id')
+        .single()
+
+      if (error) return fail('creating trip', error)
+
+      tripId = data.id
+    }
+
+    if (trip.itemIds.length > 0) {
+      const savedTripId = tripId
+      const { error } = await supabase
+        .from('trip_items')
+        .upsert(
+          trip.itemIds.map(itemId => ({
+            trip_id: savedTripId,
+            clothing_item_id: itemId,
+            user_id: userId,
+          })),
+          { onConflict: 'trip_id,clothing_item_id', ignoreDuplicates: true }
+        )
+
+      if (error) return fail('saving trip items', error)
+    }
+
+    return ok(tripId)
+  } catch (error) {
+    return fail('saving trip', error)
+  }
+}
+
+/**
+ * Tick an item on a trip's packing list as packed, or untick it
+ */
+export async function setTripItemPacked(
+  tripId: string,
+  itemId: string,
+  packed: boolean
+): Promise<ApiResult<null>> {
+  try {
+    const { error } = await supabase
+      .from('trip_items')
+      .update({ packed })
+      .eq('trip_id', tripId)
+      .eq('clothing_item_id', itemId)
+
+    if (error) return fail('updating packed item', error)
+
+    return ok(null)
+  } catch (error) {
+    return fail('updating packed item', error)
+  }
+}
+
+/**
+ * Delete a trip and its packing list. Wears already logged for the trip are kept.
+ */
+export async function deleteTrip(tripId: string): Promise<ApiResult<null>> {
+  try {
+    const { error } = await supabase
+      .from('trips')
+      .delete()
+      .eq('id', tripId)
+
+    if (error) return fail('deleting trip', error)
+
+    return ok(null)
+  } catch (error) {
+    return fail('deleting trip', error)
+  }
+}
+
+/**
+ * Whether the trip is over, so its wears can be logged. Logging locks the trip,
+ * so logging part way through would leave the remaining days unlogged.
+ */
+export function hasTripEnded(trip: Trip): boolean {
+  return trip.end_date <= getTodayString()
+}
+
+/**
+ * The wears logTripWears would log: the packed items spread over the trip days
+ */
+export function getTripWears(trip: Trip): { clothing_item_id: string; date_worn: string }[] {
+  return planTripWears(trip.items.filter(item => item.packed), getTripDates(trip.start_date, trip.end_date))
+}
+
+/**
+ * Log the packed items as worn on the trip days, once per trip and once it has ended (see planTripWears).
+ * The trip is marked first, so logging twice from two devices cannot double the wears.
+ * @param userId - Owner of the trip
+ * @param trip - The trip being unpacked
+ * @returns Promise with the number of wears logged
+ */
+export async function logTripWears(userId: string, trip: Trip): Promise<ApiResult<number>> {
+  if (!hasTripEnded(trip)) {
+    return { success: false, error: 'Log the wears once the trip is over' }
+  }
+
+  const wears = getTripWears(trip)
+  if (wears.length === 0) {
+    return { success: false, error: 'Nothing packed to log for this trip yet' }
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('trips')
+      .update({ wears_logged_at: new Date().toISOString() })
+      .eq('id', trip.id)
+      .is('wears_logged_at', null)
+      .select('id')
+
+    if (error) return fail('marking trip wears as logged', error)
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'The wears for this trip have already been logged' }
+    }
+
+    // Queued locally when offline; the items' stats update everywhere
+    const result = await recordWears(userId, wears)
+    if (!result.success) {
+      // Don't leave the trip marked without its wears
+      await supabase.from('trips').update({ wears_logged_at: null }).eq('id', trip.id)
+      return { success: false, error: result.error || 'Failed to log trip wears' }
+    }
+
+    return ok(wears.length)
+  } catch (error) {
+    return fail('logging trip wears', error)
+  }
+}